@@ -1,13 +1,21 @@
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useLiveSession } from './hooks/useLiveSession';
 import { Visualizer } from './components/Visualizer';
 import { RobotFace } from './components/RobotFace';
-import { ConnectionState } from './types';
+import { MemoryLoginForm } from './components/MemoryLoginForm';
+import { MemoryTransferControls } from './components/MemoryTransferControls';
+import { MemoryBrowser } from './components/MemoryBrowser';
+import { OperatorProfileSelect } from './components/OperatorProfileSelect';
+import { EncryptionControl } from './components/EncryptionControl';
+import { AnalysisKeyControl } from './components/AnalysisKeyControl';
+import { ConnectionState, MemoryCoreState } from './types';
+import type { MemoryBackend } from './utils/memory-db';
 
 const App: React.FC = () => {
-  const { status, connect, disconnect, logs, volume, currentEmotion, isRecording } = useLiveSession();
+  const { status, connect, disconnect, logs, volume, currentEmotion, isRecording, memoryState, pendingWrites, memoryBackend, changeMemoryBackend, loginToMemory, operatorProfile, operatorProfiles, changeOperatorProfile } = useLiveSession();
   const logContainerRef = useRef<HTMLDivElement>(null);
+  const [isBrowserOpen, setIsBrowserOpen] = useState(false);
 
   useEffect(() => {
     if (logContainerRef.current) {
@@ -17,6 +25,8 @@ const App: React.FC = () => {
 
   const isConnected = status === ConnectionState.CONNECTED;
   const isConnecting = status === ConnectionState.CONNECTING;
+  const memoryOnline = memoryState === MemoryCoreState.ONLINE;
+  const memoryPending = memoryState === MemoryCoreState.CONNECTING || memoryState === MemoryCoreState.RECONNECTING;
 
   return (
     <div className="h-screen w-full flex flex-col p-2 relative overflow-hidden bg-[#050505]">
@@ -41,6 +51,30 @@ const App: React.FC = () => {
             <div className={`text-xs md:text-sm ${isConnected ? 'text-green-500' : 'text-red-500'} font-bold`}>
                 STATUS: {status}
             </div>
+            <OperatorProfileSelect active={operatorProfile} profiles={operatorProfiles} onChange={changeOperatorProfile} />
+            <div className={`text-[10px] md:text-xs ${memoryOnline ? 'text-green-700' : memoryPending ? 'text-orange-500 animate-pulse' : 'text-red-800'}`}>
+                <select
+                    value={memoryBackend}
+                    onChange={(e) => changeMemoryBackend(e.target.value as MemoryBackend)}
+                    className="bg-black border border-red-900/50 text-red-700 text-[10px] mr-2 uppercase"
+                    title="Memory backend"
+                >
+                    <option value="websocket">REMOTE</option>
+                    <option value="indexeddb">LOCAL</option>
+                    <option value="memory">VOLATILE</option>
+                </select>
+                MEMORY CORE: {memoryState}
+                {pendingWrites > 0 && <span className="text-orange-400 ml-2">OUTBOX: {pendingWrites}</span>}
+            </div>
+            {memoryState === MemoryCoreState.UNAUTHORIZED && memoryBackend === 'websocket' && (
+                <MemoryLoginForm onSubmit={loginToMemory} />
+            )}
+            <button
+                onClick={() => setIsBrowserOpen(!isBrowserOpen)}
+                className={`text-[10px] border border-red-900/50 px-1 mt-1 ${isBrowserOpen ? 'bg-red-900/50 text-red-300' : 'text-red-700 hover:text-red-400'}`}
+            >
+                MEMORY BANK
+            </button>
             <div className="text-[10px] text-red-900 hidden md:block">
                 PROTOCOL: {isConnected ? 'ACTIVE' : 'STANDBY'}
             </div>
@@ -90,13 +124,18 @@ const App: React.FC = () => {
                 )}
              </div>
         </div>
+
+        {/* Memory Browser: overlays both panels while open */}
+        {isBrowserOpen && <MemoryBrowser onClose={() => setIsBrowserOpen(false)} />}
       </main>
 
       {/* Logs Panel - Fixed height at bottom */}
       <div className="h-32 md:h-48 flex-none border border-red-900/30 bg-black/60 p-2 overflow-hidden flex flex-col z-10 rounded shrink-0">
         <div className="text-[10px] text-red-700 mb-1 border-b border-red-900/30 pb-1 flex justify-between shrink-0">
             <span>SYSTEM LOG</span>
-            <span>ENCRYPTION: NONE</span>
+            <MemoryTransferControls />
+            <EncryptionControl backend={memoryBackend} />
+            <AnalysisKeyControl />
         </div>
         <div ref={logContainerRef} className="flex-grow overflow-y-auto font-mono text-[10px] md:text-xs space-y-1 p-1">
             {logs.length === 0 && <span className="text-red-900/50 italic">Waiting for input...</span>}
@@ -0,0 +1,30 @@
+import React, { useState } from 'react';
+import { analysisConfig, setAnalysisApiKey } from '../utils/analysis-model';
+
+/**
+ * Key for an OpenAI-compatible analysis endpoint; only shown when that provider is configured.
+ */
+export const AnalysisKeyControl: React.FC = () => {
+  const [hasKey, setHasKey] = useState(!!analysisConfig.apiKey);
+
+  if (analysisConfig.provider !== 'openai') return null;
+
+  const handleClick = () => {
+    const apiKey = window.prompt(hasKey
+      ? 'New analysis API key (leave empty to remove it):'
+      : 'API key for the analysis endpoint:');
+    if (apiKey === null) return;
+    setAnalysisApiKey(apiKey.trim() || null);
+    setHasKey(!!apiKey.trim());
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      className={`hover:text-red-400 transition-colors ${hasKey ? 'text-green-700' : ''}`}
+      title="Set or clear the analysis endpoint API key (stored in this browser)"
+    >
+      ANALYSIS KEY: {hasKey ? 'SET' : 'NONE'}
+    </button>
+  );
+};
@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { MemoryBackend, setMemoryPassphrase } from '../utils/memory-db';
+import { EncryptionState, subscribeToEncryptionState } from '../utils/memory-crypto';
+
+interface EncryptionControlProps {
+  backend: MemoryBackend;
+}
+
+export const EncryptionControl: React.FC<EncryptionControlProps> = ({ backend }) => {
+  const [state, setState] = useState<EncryptionState>({ enabled: false, hashTags: false });
+  const [isDeriving, setIsDeriving] = useState(false);
+
+  useEffect(() => subscribeToEncryptionState(setState), []);
+
+  const handleClick = async () => {
+    const passphrase = window.prompt(state.enabled
+      ? 'New memory passphrase (leave empty to disable encryption):'
+      : 'Memory passphrase for end-to-end encryption:');
+    if (passphrase === null) return;
+    setIsDeriving(true);
+    try {
+      await setMemoryPassphrase(passphrase || null);
+    } catch {
+      // Reported through the memory log
+    } finally {
+      setIsDeriving(false);
+    }
+  };
+
+  // Only the remote backend sends records anywhere; local backends never leave the browser
+  const label = isDeriving ? 'DERIVING KEY...'
+    : !state.enabled ? 'NONE'
+    : `AES-256-GCM${state.hashTags ? ' + HMAC TAGS' : ''}${backend !== 'websocket' ? ' (REMOTE ONLY)' : ''}`;
+
+  return (
+    <button
+      onClick={handleClick}
+      className={`hover:text-red-400 transition-colors ${state.enabled ? 'text-green-700' : ''}`}
+      title="Set or clear the memory passphrase"
+    >
+      ENCRYPTION: {label}
+    </button>
+  );
+};
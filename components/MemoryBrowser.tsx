@@ -0,0 +1,240 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Memory, getAllMemories, updateMemory, deleteMemory, retagMemories, subscribeToMemoryState } from '../utils/memory-db';
+import { MemoryCoreState } from '../types';
+import { SHARED_PARTITION, getOperatorProfile, subscribeToOperatorProfile } from '../utils/operator-profiles';
+import { consolidateMemories } from '../utils/memory-consolidation';
+import { TagGraphNode, tagNodeId } from '../utils/tag-graph';
+import { TagGraph } from './TagGraph';
+
+interface MemoryBrowserProps {
+  onClose: () => void;
+}
+
+type SortOrder = 'newest' | 'oldest';
+
+interface Draft {
+  content: string;
+  category: string;
+  tags: string;
+}
+
+const idOf = (m: Memory) => String(m.id);
+
+const parseTags = (value: string) => value.split(',').map(t => t.trim()).filter(Boolean);
+
+const countBy = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+export const MemoryBrowser: React.FC<MemoryBrowserProps> = ({ onClose }) => {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [tag, setTag] = useState<string | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>({ content: '', category: '', tags: '' });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkAdd, setBulkAdd] = useState('');
+  const [bulkRemove, setBulkRemove] = useState('');
+  const [isConsolidating, setIsConsolidating] = useState(false);
+  const [showGraph, setShowGraph] = useState(false);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    setMemories(await getAllMemories());
+    setIsLoading(false);
+  }, []);
+
+  // Reload on open and whenever the memory core comes (back) online
+  useEffect(() => subscribeToMemoryState(state => {
+    if (state === MemoryCoreState.ONLINE) reload();
+  }), [reload]);
+
+  // Another operator means another partition
+  const partitionRef = useRef(getOperatorProfile().partition);
+  useEffect(() => subscribeToOperatorProfile(profile => {
+    if (profile.partition === partitionRef.current) return;
+    partitionRef.current = profile.partition;
+    setSelected(new Set());
+    setEditingId(null);
+    reload();
+  }), [reload]);
+
+  const categoryFacets = useMemo(() => countBy(memories.map(m => m.category)), [memories]);
+  const tagFacets = useMemo(() => countBy(memories.flatMap(m => m.tags.map(t => t.toLowerCase()))), [memories]);
+
+  const visible = useMemo(() => {
+    const q = search.toLowerCase().trim();
+    return memories
+      .filter(m => !category || m.category === category)
+      .filter(m => !tag || m.tags.some(t => t.toLowerCase() === tag))
+      .filter(m => !q || m.content.toLowerCase().includes(q) || m.tags.some(t => t.toLowerCase().includes(q)))
+      .sort((a, b) => sortOrder === 'newest' ? b.created_ms - a.created_ms : a.created_ms - b.created_ms);
+  }, [memories, search, category, tag, sortOrder]);
+
+  const startEdit = (m: Memory) => {
+    setEditingId(idOf(m));
+    setDraft({ content: m.content, category: m.category, tags: m.tags.join(', ') });
+  };
+
+  const saveEdit = async (m: Memory) => {
+    const ok = await updateMemory(m.id!, { content: draft.content.trim(), category: draft.category.trim(), tags: parseTags(draft.tags) }, m.partition);
+    if (ok) {
+      setEditingId(null);
+      await reload();
+    }
+  };
+
+  const remove = async (m: Memory) => {
+    if (!window.confirm(`Purge archive ${m.id}?\n\n${m.content}`)) return;
+    if (await deleteMemory(m.id!, m.partition)) {
+      setSelected(prev => { const next = new Set(prev); next.delete(idOf(m)); return next; });
+      await reload();
+    }
+  };
+
+  const togglePinned = async (m: Memory) => {
+    if (await updateMemory(m.id!, { meta: { ...m.meta, pinned: !m.meta?.pinned } }, m.partition)) await reload();
+  };
+
+  const toggleSelected = (m: Memory) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(idOf(m))) next.delete(idOf(m)); else next.add(idOf(m));
+      return next;
+    });
+  };
+
+  const applyBulkRetag = async () => {
+    const targets = memories.filter(m => selected.has(idOf(m)));
+    if (targets.length === 0) return;
+    await retagMemories(targets, { add: parseTags(bulkAdd), remove: parseTags(bulkRemove) });
+    setBulkAdd('');
+    setBulkRemove('');
+    await reload();
+  };
+
+  const consolidate = async () => {
+    setIsConsolidating(true);
+    await consolidateMemories();
+    setIsConsolidating(false);
+    setSelected(new Set());
+    await reload();
+  };
+
+  // A graph node filters like the matching facet; clicking empty space clears both filters
+  const selectGraphNode = (node: TagGraphNode | null) => {
+    if (!node) {
+      setTag(null);
+      setCategory(null);
+    } else if (node.kind === 'tag') {
+      setTag(node.label);
+    } else {
+      setCategory(node.label);
+    }
+  };
+  const activeGraphNode = tag ? tagNodeId('tag', tag) : category ? tagNodeId('category', category) : null;
+
+  const facetClass = (active: boolean) =>
+    `block w-full text-left truncate px-1 ${active ? 'bg-red-900/50 text-red-300' : 'text-red-700 hover:text-red-400'}`;
+  const inputClass = "bg-black border border-red-900/50 text-red-400 px-1 placeholder-red-900";
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col border-2 border-red-900/70 bg-black/95 rounded-lg p-2 font-mono text-[10px] md:text-xs">
+      {/* Toolbar */}
+      <div className="flex-none flex items-center gap-2 border-b border-red-900/30 pb-1 mb-1 text-red-700">
+        <span className="tracking-widest">MEMORY BANK // {visible.length}/{memories.length}</span>
+        <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="SEARCH" className={`${inputClass} flex-grow`} />
+        <button onClick={() => setSortOrder(sortOrder === 'newest' ? 'oldest' : 'newest')} className="hover:text-red-400">
+          SORT: {sortOrder === 'newest' ? 'NEWEST' : 'OLDEST'}
+        </button>
+        <button onClick={() => setShowGraph(!showGraph)} className="hover:text-red-400" title="Tag co-occurrence graph">
+          VIEW: {showGraph ? 'GRAPH' : 'LIST'}
+        </button>
+        <button onClick={reload} className="hover:text-red-400">{isLoading ? 'SCANNING...' : 'REFRESH'}</button>
+        <button onClick={consolidate} disabled={isConsolidating} className="hover:text-red-400" title="Merge near-duplicate records">
+          {isConsolidating ? 'MERGING...' : 'CONSOLIDATE'}
+        </button>
+        <button onClick={onClose} className="hover:text-red-400">CLOSE</button>
+      </div>
+
+      <div className="flex-grow flex gap-2 min-h-0">
+        {/* Facets */}
+        <div className="w-32 md:w-40 flex-none overflow-y-auto border-r border-red-900/30 pr-1">
+          <div className="text-red-800 mb-1">CATEGORIES</div>
+          <button onClick={() => setCategory(null)} className={facetClass(category === null)}>ALL</button>
+          {categoryFacets.map(([name, count]) => (
+            <button key={name} onClick={() => setCategory(name)} className={facetClass(category === name)}>{name} ({count})</button>
+          ))}
+          <div className="text-red-800 mt-2 mb-1">TAGS</div>
+          <button onClick={() => setTag(null)} className={facetClass(tag === null)}>ALL</button>
+          {tagFacets.map(([name, count]) => (
+            <button key={name} onClick={() => setTag(name)} className={facetClass(tag === name)}>#{name} ({count})</button>
+          ))}
+        </div>
+
+        <div className="flex-grow flex flex-col gap-1 min-w-0 min-h-0">
+          {/* Tag graph */}
+          {showGraph && (
+            <div className="h-1/2 flex-none border-b border-red-900/30 pb-1">
+              <TagGraph memories={memories} activeId={activeGraphNode} onSelect={selectGraphNode} />
+            </div>
+          )}
+
+          {/* Records */}
+          <div className="flex-grow overflow-y-auto space-y-1 min-h-0">
+            {visible.length === 0 && <span className="text-red-900/50 italic">{isLoading ? 'Scanning archives...' : 'No records.'}</span>}
+            {visible.map(m => (
+              <div key={idOf(m)} className="border border-red-900/30 p-1 hover:border-red-900/70">
+                {editingId === idOf(m) ? (
+                  <div className="space-y-1">
+                    <textarea value={draft.content} onChange={(e) => setDraft({ ...draft, content: e.target.value })} className={`${inputClass} w-full`} rows={2} />
+                    <div className="flex gap-1">
+                      <input value={draft.category} onChange={(e) => setDraft({ ...draft, category: e.target.value })} placeholder="CATEGORY" className={`${inputClass} w-1/3`} />
+                      <input value={draft.tags} onChange={(e) => setDraft({ ...draft, tags: e.target.value })} placeholder="TAGS, COMMA SEPARATED" className={`${inputClass} flex-grow`} />
+                      <button onClick={() => saveEdit(m)} className="text-green-600 hover:text-green-400">SAVE</button>
+                      <button onClick={() => setEditingId(null)} className="text-red-700 hover:text-red-400">CANCEL</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2 items-start">
+                    <input type="checkbox" checked={selected.has(idOf(m))} onChange={() => toggleSelected(m)} className="mt-0.5 accent-red-700" />
+                    <div className="flex-grow min-w-0">
+                      <div className="text-red-400 break-words">{m.meta?.pinned && <span className="text-orange-400">■ </span>}{m.content}</div>
+                      <div className="text-red-800 truncate">
+                        {SHARED_PARTITION && m.partition === SHARED_PARTITION && <span className="text-orange-700">SHARED </span>}
+                        [{m.category}] {m.tags.map(t => `#${t}`).join(' ')} · {new Date(m.created_ms).toLocaleString()}
+                        {m.meta?.importance !== undefined ? ` · importance ${m.meta.importance}` : ''}
+                        {m.meta?.expires_ms !== undefined && !m.meta.pinned ? ` · expires ${new Date(m.meta.expires_ms).toLocaleDateString()}` : ''}
+                        {m.meta?.access_count ? ` · recalled ${m.meta.access_count}×` : ''}
+                        {m.meta?.history?.length ? ` · ${m.meta.history.length} merged` : ''}
+                      </div>
+                    </div>
+                    <button onClick={() => togglePinned(m)} className="text-red-700 hover:text-orange-400">{m.meta?.pinned ? 'UNPIN' : 'PIN'}</button>
+                    <button onClick={() => startEdit(m)} className="text-red-700 hover:text-red-400">EDIT</button>
+                    <button onClick={() => remove(m)} className="text-red-700 hover:text-red-500">PURGE</button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Bulk re-tagging */}
+      {selected.size > 0 && (
+        <div className="flex-none flex items-center gap-1 border-t border-red-900/30 pt-1 mt-1 text-red-700">
+          <span>{selected.size} SELECTED</span>
+          <input value={bulkAdd} onChange={(e) => setBulkAdd(e.target.value)} placeholder="ADD TAGS" className={`${inputClass} flex-grow`} />
+          <input value={bulkRemove} onChange={(e) => setBulkRemove(e.target.value)} placeholder="REMOVE TAGS" className={`${inputClass} flex-grow`} />
+          <button onClick={applyBulkRetag} className="text-green-600 hover:text-green-400">APPLY</button>
+          <button onClick={() => setSelected(new Set())} className="hover:text-red-400">CLEAR</button>
+        </div>
+      )}
+    </div>
+  );
+};
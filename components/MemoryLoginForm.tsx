@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+
+interface MemoryLoginFormProps {
+  onSubmit: (login: string, password: string) => Promise<void>;
+}
+
+export const MemoryLoginForm: React.FC<MemoryLoginFormProps> = ({ onSubmit }) => {
+  // Only the login name may come from the build; the password is always typed in
+  const [login, setLogin] = useState(process.env.HK_DB_USER || '');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!login || !password) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(login, password);
+    } catch {
+      // Failure is reported through the memory log
+    } finally {
+      // The password is handed to the memory client and not kept in component state
+      setPassword('');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-1 text-[10px]">
+      <span className="text-red-700 tracking-widest">MEMORY CORE AUTH:</span>
+      <input
+        value={login}
+        onChange={(e) => setLogin(e.target.value)}
+        placeholder="LOGIN"
+        autoComplete="username"
+        className="w-20 bg-black border border-red-900/50 text-red-500 px-1 placeholder-red-900"
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="PASSWORD"
+        autoComplete="current-password"
+        className="w-20 bg-black border border-red-900/50 text-red-500 px-1 placeholder-red-900"
+      />
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className={`border border-red-600 text-red-500 px-2 hover:bg-red-600 hover:text-black transition-all ${isSubmitting ? 'opacity-50' : ''}`}
+      >
+        {isSubmitting ? '...' : 'AUTH'}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { useRef } from 'react';
+import { exportMemories, importMemories, ExportFormat } from '../utils/memory-transfer';
+
+const downloadText = (text: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const MemoryTransferControls: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      const text = await exportMemories(format);
+      const stamp = new Date().toISOString().slice(0, 10);
+      if (format === 'json') downloadText(text, `hk47-memory-${stamp}.json`, 'application/json');
+      else downloadText(text, `hk47-memory-${stamp}.md`, 'text/markdown');
+    } catch {
+      // Reported through the memory log
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importMemories(await file.text());
+    } catch {
+      // Reported through the memory log
+    }
+  };
+
+  const buttonClass = "hover:text-red-400 transition-colors";
+
+  return (
+    <span className="flex space-x-2">
+      <button onClick={() => handleExport('json')} className={buttonClass}>EXPORT JSON</button>
+      <button onClick={() => handleExport('markdown')} className={buttonClass}>EXPORT MD</button>
+      <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>IMPORT</button>
+      <input ref={fileInputRef} type="file" accept=".json,.md,application/json,text/markdown" onChange={handleImport} className="hidden" />
+    </span>
+  );
+};
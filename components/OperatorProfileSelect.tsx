@@ -0,0 +1,36 @@
+import React from 'react';
+import type { OperatorProfile } from '../utils/operator-profiles';
+
+interface OperatorProfileSelectProps {
+  active: OperatorProfile;
+  profiles: OperatorProfile[];
+  onChange: (name: string) => void;
+}
+
+const NEW_PROFILE = '__new__';
+
+export const OperatorProfileSelect: React.FC<OperatorProfileSelectProps> = ({ active, profiles, onChange }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value !== NEW_PROFILE) {
+      onChange(e.target.value);
+      return;
+    }
+    const name = window.prompt('Operator designation:');
+    if (name?.trim()) onChange(name.trim());
+  };
+
+  return (
+    <div className="text-[10px] md:text-xs text-red-700">
+      OPERATOR:
+      <select
+        value={active.name}
+        onChange={handleChange}
+        className="bg-black border border-red-900/50 text-red-500 text-[10px] ml-1 uppercase"
+        title={`Memory partition: ${active.partition}`}
+      >
+        {profiles.map(p => <option key={p.partition} value={p.name}>{p.name}</option>)}
+        <option value={NEW_PROFILE}>+ NEW</option>
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Memory } from '../utils/memory-store';
+import { TagGraphNode, buildTagGraph } from '../utils/tag-graph';
+
+interface TagGraphProps {
+  memories: Memory[];
+  // Node currently used as the record filter
+  activeId: string | null;
+  onSelect: (node: TagGraphNode | null) => void;
+}
+
+interface Body {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 360;
+
+// Force-directed layout: nodes repel, edges pull like springs, a weak gravity keeps the graph centred.
+// The simulation cools down (alpha) and stops; dragging a node or new data heats it up again.
+const REPULSION = 900;
+const SPRING_LENGTH = 70;
+const SPRING_STRENGTH = 0.02;
+const GRAVITY = 0.012;
+const DAMPING = 0.82;
+const ALPHA_DECAY = 0.985;
+const ALPHA_MIN = 0.02;
+
+const radiusOf = (node: TagGraphNode) => 4 + Math.sqrt(node.count) * 3;
+
+export const TagGraph: React.FC<TagGraphProps> = ({ memories, activeId, onSelect }) => {
+  const graph = useMemo(() => buildTagGraph(memories), [memories]);
+  const bodies = useRef(new Map<string, Body>());
+  const alpha = useRef(1);
+  const dragging = useRef<string | null>(null);
+  // Restarts the animation loop, which stops scheduling frames once the layout has cooled
+  const wake = useRef(() => {});
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [, setFrame] = useState(0);
+  const [hoverId, setHoverId] = useState<string | null>(null);
+
+  const neighbours = useMemo(() => {
+    const map = new Map<string, Set<string>>();
+    graph.edges.forEach(e => {
+      if (!map.has(e.source)) map.set(e.source, new Set());
+      if (!map.has(e.target)) map.set(e.target, new Set());
+      map.get(e.source)!.add(e.target);
+      map.get(e.target)!.add(e.source);
+    });
+    return map;
+  }, [graph]);
+
+  // Keep positions of nodes that survive a reload, place new ones near the centre
+  useEffect(() => {
+    const next = new Map<string, Body>();
+    graph.nodes.forEach(n => next.set(n.id, bodies.current.get(n.id) || {
+      x: WIDTH / 2 + (Math.random() - 0.5) * WIDTH * 0.6,
+      y: HEIGHT / 2 + (Math.random() - 0.5) * HEIGHT * 0.6,
+      vx: 0,
+      vy: 0,
+    }));
+    bodies.current = next;
+    alpha.current = 1;
+  }, [graph]);
+
+  useEffect(() => {
+    let animationId: number | null = null;
+    const step = () => {
+      if (alpha.current < ALPHA_MIN && !dragging.current) {
+        animationId = null;
+        return;
+      }
+      animationId = requestAnimationFrame(step);
+
+      const list = graph.nodes.map(n => [n.id, bodies.current.get(n.id)!] as const).filter(([, b]) => b);
+      for (let i = 0; i < list.length; i++) {
+        const [, a] = list[i];
+        for (let j = i + 1; j < list.length; j++) {
+          const [, b] = list[j];
+          const dx = a.x - b.x, dy = a.y - b.y;
+          const distSq = Math.max(dx * dx + dy * dy, 25);
+          const force = REPULSION / distSq * alpha.current;
+          const dist = Math.sqrt(distSq);
+          a.vx += dx / dist * force; a.vy += dy / dist * force;
+          b.vx -= dx / dist * force; b.vy -= dy / dist * force;
+        }
+      }
+      graph.edges.forEach(e => {
+        const a = bodies.current.get(e.source), b = bodies.current.get(e.target);
+        if (!a || !b) return;
+        const dx = b.x - a.x, dy = b.y - a.y;
+        const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+        const force = (dist - SPRING_LENGTH) * SPRING_STRENGTH * Math.min(e.weight, 4) * alpha.current;
+        a.vx += dx / dist * force; a.vy += dy / dist * force;
+        b.vx -= dx / dist * force; b.vy -= dy / dist * force;
+      });
+      list.forEach(([id, b]) => {
+        if (id === dragging.current) return;
+        b.vx = (b.vx + (WIDTH / 2 - b.x) * GRAVITY * alpha.current) * DAMPING;
+        b.vy = (b.vy + (HEIGHT / 2 - b.y) * GRAVITY * alpha.current) * DAMPING;
+        b.x = Math.min(WIDTH - 10, Math.max(10, b.x + b.vx));
+        b.y = Math.min(HEIGHT - 10, Math.max(10, b.y + b.vy));
+      });
+
+      alpha.current *= ALPHA_DECAY;
+      setFrame(f => f + 1);
+    };
+    wake.current = () => {
+      if (animationId === null) animationId = requestAnimationFrame(step);
+    };
+    wake.current();
+    return () => {
+      if (animationId !== null) cancelAnimationFrame(animationId);
+      wake.current = () => {};
+    };
+  }, [graph]);
+
+  // Selecting a node restarts the loop as well; it stops again on the next frame if the layout is cool
+  useEffect(() => wake.current(), [activeId]);
+
+  const toGraphPoint = (e: React.PointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!matrix) return null;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    return { x: point.x, y: point.y };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const body = dragging.current && bodies.current.get(dragging.current);
+    const point = body && toGraphPoint(e);
+    if (!body || !point) return;
+    body.x = point.x;
+    body.y = point.y;
+    body.vx = body.vy = 0;
+    alpha.current = Math.max(alpha.current, 0.3);
+    wake.current();
+  };
+
+  const focusId = hoverId || activeId;
+  const isDimmed = (id: string) => !!focusId && id !== focusId && !neighbours.get(focusId)?.has(id);
+  const maxWeight = Math.max(1, ...graph.edges.map(e => e.weight));
+
+  if (graph.nodes.length === 0) {
+    return <div className="h-full flex items-center justify-center text-red-900/50 italic">No tags to map.</div>;
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="flex-grow w-full min-h-0 select-none"
+        onPointerMove={onPointerMove}
+        onPointerUp={() => { dragging.current = null; }}
+        onPointerLeave={() => { dragging.current = null; }}
+        onClick={(e) => { if (e.target === svgRef.current) onSelect(null); }}
+      >
+        {graph.edges.map(e => {
+          const a = bodies.current.get(e.source), b = bodies.current.get(e.target);
+          if (!a || !b) return null;
+          const dimmed = isDimmed(e.source) || isDimmed(e.target);
+          return (
+            <line
+              key={`${e.source}|${e.target}`}
+              x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+              stroke="#7f1d1d"
+              strokeWidth={0.5 + 2 * e.weight / maxWeight}
+              strokeOpacity={dimmed ? 0.1 : 0.3 + 0.6 * e.weight / maxWeight}
+            />
+          );
+        })}
+        {graph.nodes.map(n => {
+          const body = bodies.current.get(n.id);
+          if (!body) return null;
+          const r = radiusOf(n);
+          const active = n.id === activeId;
+          // Single-use tags are the usual sign of fragmentation (a spelling or synonym of another tag)
+          const single = n.kind === 'tag' && n.count === 1;
+          const stroke = active ? '#fb923c' : n.kind === 'category' ? '#c2410c' : '#dc2626';
+          return (
+            <g
+              key={n.id}
+              transform={`translate(${body.x},${body.y})`}
+              opacity={isDimmed(n.id) ? 0.25 : 1}
+              className="cursor-pointer"
+              onPointerDown={(e) => { dragging.current = n.id; wake.current(); (e.target as Element).setPointerCapture?.(e.pointerId); }}
+              onPointerEnter={() => setHoverId(n.id)}
+              onPointerLeave={() => setHoverId(null)}
+              onClick={(e) => { e.stopPropagation(); onSelect(active ? null : n); }}
+            >
+              <title>{`${n.kind === 'tag' ? '#' : ''}${n.label}: ${n.count} record(s), ${neighbours.get(n.id)?.size || 0} link(s)`}</title>
+              {n.kind === 'category'
+                ? <rect x={-r} y={-r} width={r * 2} height={r * 2} fill="#1c0a05" stroke={stroke} strokeWidth={active ? 2 : 1} />
+                : <circle r={r} fill="#1a0505" stroke={stroke} strokeWidth={active ? 2 : 1} strokeDasharray={single ? '2 2' : undefined} />}
+              <text
+                y={-r - 3}
+                textAnchor="middle"
+                fontSize={n.kind === 'category' ? 11 : 9 + Math.min(n.count, 6)}
+                fill={active ? '#fdba74' : n.kind === 'category' ? '#ea580c' : '#f87171'}
+                fontFamily="Share Tech Mono, monospace"
+              >
+                {n.kind === 'tag' ? `#${n.label}` : n.label.toUpperCase()}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex-none text-red-800 flex gap-3">
+        <span>○ TAG</span>
+        <span className="text-orange-700">□ CATEGORY</span>
+        <span>◌ SINGLE-USE TAG</span>
+        <span>{graph.nodes.length} NODES · {graph.edges.length} LINKS</span>
+      </div>
+    </div>
+  );
+};
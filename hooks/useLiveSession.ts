@@ -1,11 +1,17 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
-import { ConnectionState, LogEntry } from '../types';
-import { decodeBase64, pcmToAudioBuffer, float32ToPcmBlob, downsampleBuffer } from '../utils/audio-utils';
-import { HK47_SYSTEM_INSTRUCTION, getRandomThinkingPrompt } from './instructions';
-import { saveMemory, formatMemoriesForPrompt, searchMemories, getAllMemories, subscribeToMemoryLogs, db } from '../utils/memory-db';
-import { contextManager } from '../utils/context-manager';
+import { ConnectionState, LogEntry, MemoryCoreState } from '../types';
+import { decodeBase64, pcmToAudioBuffer, float32ToPcmBlob } from '../utils/audio-utils';
+import { CAPTURE_SAMPLE_RATE, MicCapture, pcmFrameToBlob, startMicCapture } from '../utils/mic-capture';
+import { buildSystemInstruction, getRandomThinkingPrompt } from './instructions';
+import { saveMemory, updateMemory, deleteMemory, formatMemoriesForPrompt, searchMemories, getAllMemories, getCoreMemories, Memory, subscribeToMemoryLogs, subscribeToMemoryState, connectMemoryStore, loginToMemoryCore, getMemoryStore, setMemoryBackend, MemoryBackend } from '../utils/memory-db';
+import { subscribeToOutboxCount } from '../utils/memory-outbox';
+import { OperatorProfile, getOperatorProfile, listOperatorProfiles, setOperatorProfile, subscribeToOperatorProfile } from '../utils/operator-profiles';
+import { contextManager, formatStageTimings } from '../utils/context-manager';
+import { enrichTags, normalizeTags } from '../utils/tag-vocabulary';
+import { subscribeToAnalysisLogs } from '../utils/analysis-model';
+import { startConsolidationSchedule } from '../utils/memory-consolidation';
 
 // --- ОПРЕДЕЛЕНИЕ ИНСТРУМЕНТОВ (TOOLS) ---
 // Эти определения сообщают модели, какие функции она может вызывать.
@@ -38,6 +44,43 @@ const retrievalToolDeclaration: FunctionDeclaration = {
   },
 };
 
+// Инструмент для исправления ранее сохранённого факта
+const amendToolDeclaration: FunctionDeclaration = {
+  name: 'amendMemoryCore',
+  description: 'Corrects a previously saved memory. Pass the record id if known, otherwise a query describing the record to amend.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING, description: 'ID of the record (from [ARCHIVE:id | ...]).' },
+      query: { type: Type.STRING, description: 'Search query used to locate the record when id is unknown.' },
+      content: { type: Type.STRING, description: 'The corrected fact.' },
+      category: { type: Type.STRING, description: 'New category, if it changes.' },
+      tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'New keywords, if they change.' },
+    },
+    required: ['content'],
+  },
+};
+
+// Инструмент для удаления записи ("забудь, что я...")
+// Двухшаговый протокол: сначала поиск кандидатов, затем удаление после подтверждения пользователем.
+const purgeToolDeclaration: FunctionDeclaration = {
+  name: 'purgeFromMemoryCore',
+  description: 'Deletes a memory the user asks to forget. First call with a query (confirmed=false) to list candidates, ask the user to confirm, then call again with the id and confirmed=true.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: { type: Type.STRING, description: 'What the user wants forgotten.' },
+      id: { type: Type.STRING, description: 'ID of the record to delete (from [ARCHIVE:id | ...]).' },
+      confirmed: { type: Type.BOOLEAN, description: 'True only after the user explicitly confirmed the deletion.' },
+    },
+  },
+};
+
+// Сколько ждать ядро памяти при подключении, прежде чем стартовать без предзагрузки
+const CORE_MEMORY_PRELOAD_TIMEOUT_MS = 3000;
+// Сколько HK-47 ждёт модуль анализа, прежде чем ответить без данных архива
+const CONTEXT_LATENCY_BUDGET_MS = 4000;
+
 export const useLiveSession = () => {
   // --- СОСТОЯНИЕ (STATE) ---
   const [status, setStatus] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
@@ -45,6 +88,11 @@ export const useLiveSession = () => {
   const [volume, setVolume] = useState<number>(0);
   const [currentEmotion, setCurrentEmotion] = useState<string>('neutral');
   const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [memoryState, setMemoryState] = useState<MemoryCoreState>(MemoryCoreState.OFFLINE);
+  const [pendingWrites, setPendingWrites] = useState<number>(0);
+  const [memoryBackend, setMemoryBackendState] = useState<MemoryBackend>(getMemoryStore().kind);
+  const [operatorProfile, setOperatorProfileState] = useState<OperatorProfile>(getOperatorProfile());
+  const [operatorProfiles, setOperatorProfiles] = useState<OperatorProfile[]>(listOperatorProfiles());
   
   // --- ССЫЛКИ (REFS) ДЛЯ АУДИО ---
   const inputContextRef = useRef<AudioContext | null>(null);  // Контекст для микрофона
@@ -55,7 +103,7 @@ export const useLiveSession = () => {
   
   // Ссылки на потоки и процессоры
   const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const processorRef = useRef<MicCapture | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   
   // Очередь воспроизведения (для бесшовного звука)
@@ -64,6 +112,8 @@ export const useLiveSession = () => {
 
   // --- ФЛАГИ ЛОГИКИ ---
   const isAnalyzingRef = useRef<boolean>(false); // Идет ли сейчас анализ контекста
+  const contextTurnRef = useRef<number>(0); // Номер последнего хода, отправленного на анализ
+  const contextAbortRef = useRef<AbortController | null>(null); // Отмена анализа предыдущего хода
   const isRecordingRef = useRef<boolean>(false); // Активен ли режим записи данных
   
   // Буферы для накопления текста
@@ -92,6 +142,47 @@ export const useLiveSession = () => {
     return unsubscribe;
   }, [addLog]);
 
+  // Сбои модуля анализа: недоступность модели и нарушения схемы ответа различаются
+  useEffect(() => subscribeToAnalysisLogs(({ kind, task, model, message }) => {
+    const label = kind === 'network' ? 'MODEL LINK FAILURE' : kind === 'validation' ? 'SCHEMA VIOLATION' : 'RESPONSE REPAIRED';
+    addLog(`[ANALYSIS UNIT] ${label} [${task} @ ${model}]: ${message}`, kind === 'repaired' ? 'info' : 'error', 'HK-47');
+  }), [addLog]);
+
+  // Подписка на состояние соединения с ядром памяти (отдельно от статуса Gemini)
+  useEffect(() => subscribeToMemoryState(setMemoryState), []);
+
+  // Количество записей, ожидающих отправки из локального outbox
+  useEffect(() => subscribeToOutboxCount(setPendingWrites), []);
+
+  // Периодическое слияние дубликатов, пока ядро памяти на связи
+  useEffect(() => startConsolidationSchedule(), []);
+
+  // Смена хранилища памяти (WebSocket / IndexedDB / RAM) на лету
+  const changeMemoryBackend = useCallback(async (backend: MemoryBackend) => {
+    await setMemoryBackend(backend);
+    setMemoryBackendState(backend);
+  }, []);
+
+  // Ввод учётных данных ядра памяти через форму (вместо переменных окружения)
+  const loginToMemory = useCallback((login: string, password: string) => loginToMemoryCore(login, password), []);
+
+  // Профиль оператора: у каждого свой раздел памяти. Активная сессия узнаёт о смене сразу.
+  useEffect(() => subscribeToOperatorProfile(profile => {
+    setOperatorProfileState(profile);
+    setOperatorProfiles(listOperatorProfiles());
+  }), []);
+
+  const changeOperatorProfile = useCallback((name: string) => {
+    const previous = getOperatorProfile();
+    const profile = setOperatorProfile(name);
+    if (profile.partition === previous.partition) return;
+    addLog(`Operator identified: ${profile.name}`, 'info', 'HK-47');
+    contextManager.resetDialogue();
+    sessionPromiseRef.current?.then(session => {
+      session.sendRealtimeInput({ text: `[SYSTEM: Operator changed. You are now addressing "${profile.name}". Their personal memory partition is now active.]` });
+    });
+  }, [addLog]);
+
   // --- ВОСПРОИЗВЕДЕНИЕ АУДИО (PLAYBACK) ---
   const playAudioChunk = useCallback((base64Data: string) => {
       if (!outputContextRef.current) return;
@@ -127,7 +218,7 @@ export const useLiveSession = () => {
   // --- ОТКЛЮЧЕНИЕ (DISCONNECT) ---
   const disconnect = useCallback(() => {
     if (processorRef.current) {
-      processorRef.current.disconnect();
+      processorRef.current.stop();
       processorRef.current = null;
     }
     if (sourceRef.current) {
@@ -154,6 +245,9 @@ export const useLiveSession = () => {
     audioSourcesRef.current.clear();
     
     sessionPromiseRef.current = null;
+    contextAbortRef.current?.abort();
+    contextAbortRef.current = null;
+    contextManager.resetDialogue();
     isAnalyzingRef.current = false;
     isRecordingRef.current = false;
     setIsRecording(false);
@@ -166,9 +260,25 @@ export const useLiveSession = () => {
   }, [addLog]);
 
   // --- ОБРАБОТКА КОНТЕКСТА (CONTEXT MANAGER) ---
+  // Каждый ход получает номер и AbortSignal: новый ход отменяет анализ предыдущего, а его инъекция
+  // отбрасывается. Если анализ не уложился в бюджет задержки, HK-47 отвечает без данных архива.
   const processContext = useCallback((userText: string) => {
       addLog(userText, 'info', 'MEATBAG');
+      const turnId = ++contextTurnRef.current;
+      contextAbortRef.current?.abort();
+      const controller = new AbortController();
+      contextAbortRef.current = controller;
       isAnalyzingRef.current = true;
+
+      const isCurrent = () => contextTurnRef.current === turnId;
+      let answered = false;
+      const answer = (prompt: string) => {
+          answered = true;
+          isAnalyzingRef.current = false;
+          sessionPromiseRef.current?.then(session => {
+              session.sendRealtimeInput({ text: prompt });
+          });
+      };
       
       // 1. Заполняем тишину
       const thinkingPrompt = getRandomThinkingPrompt();
@@ -176,22 +286,36 @@ export const useLiveSession = () => {
           session.sendRealtimeInput({ text: thinkingPrompt });
       });
 
-      // 2. Запускаем ContextManager
-      contextManager.processUserContext(userText).then(({ injection, log }) => {
+      // 2. Бюджет задержки: не оставляем HK-47 на фразе-заполнителе
+      const budget = setTimeout(() => {
+          if (!isCurrent()) return;
+          addLog(`[ANALYSIS UNIT] Turn #${turnId}: latency budget of ${CONTEXT_LATENCY_BUDGET_MS}ms exceeded, answering without archive data`, 'error', 'HK-47');
+          answer(`[SYSTEM: Archive scan timed out. Answer the user's question naturally: "${userText}"]`);
+      }, CONTEXT_LATENCY_BUDGET_MS);
+
+      // 3. Запускаем ContextManager
+      contextManager.processUserContext(userText, { signal: controller.signal }).then(({ injection, log, cancelled, confirmation, timings }) => {
+          clearTimeout(budget);
+          addLog(`[ANALYSIS UNIT] Turn #${turnId} timings: ${formatStageTimings(timings)}`, 'info', 'HK-47');
           if (log) addLog(log, 'info', 'HK-47');
+
+          if (cancelled || !isCurrent()) {
+              addLog(`[ANALYSIS UNIT] Turn #${turnId} superseded, injection dropped`, 'info', 'HK-47');
+              return;
+          }
+          if (answered) {
+              if (injection) addLog(`[ANALYSIS UNIT] Turn #${turnId} finished after the budget, injection dropped`, 'info', 'HK-47');
+              return;
+          }
           
-          let finalPrompt = "";
           if (injection) {
               addLog("CONTEXT UPDATE INJECTED", 'success', 'HK-47');
-              finalPrompt = `${injection}\n\n[SYSTEM: Context applied. Now answer the user's question: "${userText}"]`;
+              // Вопрос о подтверждении ждёт ответа, только если он действительно дошёл до HK-47
+              if (confirmation) contextManager.confirmationAsked(confirmation);
+              answer(`${injection}\n\n[SYSTEM: Context applied. Now answer the user's question: "${userText}"]`);
           } else {
-              finalPrompt = `[SYSTEM: Scan complete. No archival data found. Answer the user's question naturally: "${userText}"]`;
+              answer(`[SYSTEM: Scan complete. No archival data found. Answer the user's question naturally: "${userText}"]`);
           }
-          
-          sessionPromiseRef.current?.then(session => {
-              session.sendRealtimeInput({ text: finalPrompt });
-          });
-          isAnalyzingRef.current = false;
       });
   }, [addLog]);
 
@@ -203,7 +327,8 @@ export const useLiveSession = () => {
     }
 
     try {
-      await db.connect();
+      // Ядро памяти подключается в фоне: супервизор сам переподключится при сбое
+      connectMemoryStore().catch(() => {});
       setStatus(ConnectionState.CONNECTING);
       addLog("Initializing audio protocols...", 'info');
 
@@ -234,6 +359,13 @@ export const useLiveSession = () => {
       const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       
       addLog("Contacting HK-47 core...", 'info');
+
+      // Закреплённые и важные записи сразу попадают в системную инструкцию (ждём не дольше таймаута)
+      const coreMemories = await Promise.race([
+        getCoreMemories(),
+        new Promise<Memory[]>(resolve => setTimeout(() => resolve([]), CORE_MEMORY_PRELOAD_TIMEOUT_MS)),
+      ]);
+      if (coreMemories.length > 0) addLog(`Core memories preloaded: ${coreMemories.length}`, 'info');
       
       sessionPromiseRef.current = ai.live.connect({
         model: 'gemini-2.5-flash-native-audio-preview-09-2025',
@@ -242,8 +374,8 @@ export const useLiveSession = () => {
           speechConfig: {
             voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Charon' } } 
           },
-          systemInstruction: HK47_SYSTEM_INSTRUCTION,
-          tools: [{ functionDeclarations: [memoryToolDeclaration, retrievalToolDeclaration] }],
+          systemInstruction: buildSystemInstruction(getOperatorProfile().name, coreMemories.length ? formatMemoriesForPrompt(coreMemories) : null),
+          tools: [{ functionDeclarations: [memoryToolDeclaration, retrievalToolDeclaration, amendToolDeclaration, purgeToolDeclaration] }],
           inputAudioTranscription: {},
           outputAudioTranscription: {},
         },
@@ -262,48 +394,37 @@ export const useLiveSession = () => {
               const source = inputContextRef.current.createMediaStreamSource(streamRef.current);
               sourceRef.current = source;
               
-              const processor = inputContextRef.current.createScriptProcessor(4096, 1, 1);
-              processorRef.current = processor;
-
-              processor.onaudioprocess = (e) => {
-                const inputData = e.inputBuffer.getChannelData(0);
-                
-                let sum = 0;
-                for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-                setVolume(Math.sqrt(sum / inputData.length));
-
-                const currentRate = inputContextRef.current?.sampleRate || 16000;
-                let dataToSend = inputData;
-                if (currentRate !== 16000) {
-                    dataToSend = downsampleBuffer(inputData, currentRate, 16000);
-                }
-
-                const pcmBlob = float32ToPcmBlob(dataToSend, 16000);
-                
-                if (sessionPromiseRef.current) {
-                  sessionPromiseRef.current.then(session => {
-                     session.sendRealtimeInput({ media: pcmBlob });
+              // Захват в AudioWorklet: ресемплинг, PCM-кадры и уровень громкости вне главного потока
+              const inputCtx = inputContextRef.current;
+              const capture = await startMicCapture(inputCtx, source, {
+                onFrame: (pcm, sampleRate) => {
+                  sessionPromiseRef.current?.then(session => {
+                     session.sendRealtimeInput({ media: pcmFrameToBlob(pcm, sampleRate) });
                   }).catch(err => {
                     console.error("Session send error", err);
                   });
-                }
-              };
-
-              source.connect(processor);
-              processor.connect(inputContextRef.current.destination);
+                },
+                onVolume: setVolume,
+              });
+              // Сессию могли закрыть, пока загружался модуль worklet
+              if (inputContextRef.current !== inputCtx) {
+                capture.stop();
+                return;
+              }
+              processorRef.current = capture;
               
               if (sessionPromiseRef.current) {
                  setTimeout(() => {
                     sessionPromiseRef.current?.then(session => {
                         const silentData = new Float32Array(8000).fill(0);
-                        const silentBlob = float32ToPcmBlob(silentData, 16000);
+                        const silentBlob = float32ToPcmBlob(silentData, CAPTURE_SAMPLE_RATE);
                         session.sendRealtimeInput({ media: silentBlob });
                     }).catch(console.error);
                  }, 500);
               }
 
             } catch (err) {
-              addLog(`Microphone access denied: ${err}`, 'error');
+              addLog(`Microphone capture failed: ${err}`, 'error');
               disconnect();
             }
           },
@@ -316,7 +437,10 @@ export const useLiveSession = () => {
                     if (fc.name === 'commitToMemoryCore') {
                          const { content, category, tags } = fc.args as any;
                          addLog(`MANUAL ARCHIVE [${category}]: ${content.substring(0, 30)}...`, 'success', 'HK-47');
-                         await saveMemory(content, category, tags || []);
+                         // Ответ не ждёт тегов: извлечение и нормализация идут в фоне
+                         enrichTags(content, tags || [])
+                             .then(finalTags => saveMemory(content, category, finalTags))
+                             .catch((e: any) => addLog(`MANUAL ARCHIVE FAILED: ${e.message}`, 'error', 'HK-47'));
                          sessionPromiseRef.current?.then(s => s.sendToolResponse({
                              functionResponses: { id: fc.id, name: fc.name, response: { result: "Confirmed." } }
                          }));
@@ -327,6 +451,44 @@ export const useLiveSession = () => {
                         sessionPromiseRef.current?.then(s => s.sendToolResponse({
                             functionResponses: { id: fc.id, name: fc.name, response: { result } }
                         }));
+                    } else if (fc.name === 'amendMemoryCore') {
+                        const { id, query, content, category, tags: rawTags } = fc.args as any;
+                        const tags = rawTags?.length ? await normalizeTags(rawTags) : undefined;
+                        let result: string;
+                        if (id) {
+                            const ok = await updateMemory(id, { content, category, tags });
+                            result = ok ? "Amended." : "Amend failed.";
+                        } else {
+                            const matches = query ? await searchMemories(query) : [];
+                            if (matches.length === 1) {
+                                const ok = await updateMemory(matches[0].id!, { content, category, tags });
+                                result = ok ? `Amended record ${matches[0].id}.` : "Amend failed.";
+                            } else if (matches.length === 0) {
+                                result = "No matching record found.";
+                            } else {
+                                result = `Several records match. Ask which one and call again with its id:\n${formatMemoriesForPrompt(matches)}`;
+                            }
+                        }
+                        addLog(`ARCHIVE AMEND: ${result.split('\n')[0]}`, 'info', 'HK-47');
+                        sessionPromiseRef.current?.then(s => s.sendToolResponse({
+                            functionResponses: { id: fc.id, name: fc.name, response: { result } }
+                        }));
+                    } else if (fc.name === 'purgeFromMemoryCore') {
+                        const { id, query, confirmed } = fc.args as any;
+                        let result: string;
+                        if (confirmed && id) {
+                            const ok = await deleteMemory(id);
+                            result = ok ? `Record ${id} purged.` : "Purge failed.";
+                            addLog(`ARCHIVE PURGE: ${result}`, ok ? 'success' : 'error', 'HK-47');
+                        } else {
+                            const matches = query ? await searchMemories(query) : [];
+                            result = matches.length === 0
+                                ? "No matching record found."
+                                : `Candidates for deletion:\n${formatMemoriesForPrompt(matches)}\nRead the matching record to the user and ask for confirmation. Then call again with its id and confirmed=true.`;
+                        }
+                        sessionPromiseRef.current?.then(s => s.sendToolResponse({
+                            functionResponses: { id: fc.id, name: fc.name, response: { result } }
+                        }));
                     }
                 }
             }
@@ -408,6 +570,7 @@ export const useLiveSession = () => {
                     
                     if (outputTranscriptRef.current.trim()) {
                         addLog(outputTranscriptRef.current, 'info', 'HK-47');
+                        contextManager.recordTurn('HK-47', outputTranscriptRef.current);
                         outputTranscriptRef.current = '';
                     }
                 }
@@ -460,5 +623,5 @@ export const useLiveSession = () => {
     }
   }, [disconnect, playAudioChunk, addLog, processContext]);
 
-  return { status, connect, disconnect, logs, volume, currentEmotion, isRecording };
+  return { status, connect, disconnect, logs, volume, currentEmotion, isRecording, memoryState, pendingWrites, memoryBackend, changeMemoryBackend, loginToMemory, operatorProfile, operatorProfiles, changeOperatorProfile };
 };
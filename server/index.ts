@@ -0,0 +1,49 @@
+import path from 'path';
+import { WebSocketServer } from 'ws';
+import { JsonRecordStore } from './record-store';
+import { handleConnection, Permission, TokenIssuer } from './memory-core';
+
+// Local stand-in for the Memory Core. Point the app at it with HK_DB_URL=ws://localhost:8787/ws.
+
+const PORT = Number(process.env.HK_DB_PORT || 8787);
+const DATA_FILE = process.env.HK_DB_FILE || path.resolve('server/data/memory-core.json');
+const LOGIN = process.env.HK_DB_USER;
+const PASSWORD = process.env.HK_DB_PASS;
+const TOKEN_TTL_MS = Number(process.env.HK_DB_TOKEN_TTL_MS || 15 * 60 * 1000);
+
+const splitList = (value: string | undefined) => value ? value.split(',').map(v => v.trim()).filter(Boolean) : null;
+const PERMISSIONS = (splitList(process.env.HK_DB_PERMISSIONS) || ['read', 'write', 'delete']) as Permission[];
+const PARTITIONS = splitList(process.env.HK_DB_PARTITIONS);
+
+const main = async () => {
+  if (!LOGIN || !PASSWORD) {
+    console.error('[memory-core] HK_DB_USER and HK_DB_PASS must be set.');
+    process.exit(1);
+  }
+
+  const store = new JsonRecordStore(DATA_FILE);
+  await store.load();
+
+  const wss = new WebSocketServer({ port: PORT, path: '/ws' });
+  const context = {
+    store,
+    credentials: { login: LOGIN, password: PASSWORD },
+    policy: { permissions: PERMISSIONS, partitions: PARTITIONS },
+    tokens: new TokenIssuer(TOKEN_TTL_MS),
+  };
+  wss.on('connection', (socket) => handleConnection(socket, context));
+  console.log(`[memory-core] Listening on ws://localhost:${PORT}/ws (data: ${DATA_FILE})`);
+
+  const shutdown = async () => {
+    wss.close();
+    await store.flush();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+main().catch((e) => {
+  console.error('[memory-core] Fatal', e);
+  process.exit(1);
+});
@@ -0,0 +1,209 @@
+import type { WebSocket } from 'ws';
+import { randomBytes } from 'crypto';
+import { JsonRecordStore, StoredItem } from './record-store';
+
+// hk-db protocol, one JSON object per frame. Every reply echoes the request_id of the message it answers.
+//
+//   auth   { login, password } | { token }                       -> auth_ok { token, expires_ms, permissions, partitions }
+//   refresh {}                                                    -> refreshed { token, expires_ms }
+//   ping   {}                                                     -> pong
+//   insert { partition, data, tags, categories, created_ms?,
+//            meta? }                                             -> inserted { id }
+//   search { partition, query?, tags, categories, since_ms?,
+//            until_ms?, limit?, cursor? }                         -> search_results { items, next_cursor, filtered }
+//   update { partition, id, data?, tags?, categories?, meta? }    -> updated { id }
+//   delete { partition, id }                                      -> deleted { id }
+//   any failure                                                   -> error { message }
+//
+// `meta` is an opaque JSON object owned by the client (e.g. merge history); the server only stores it.
+
+export interface Credentials {
+  login: string;
+  password: string;
+}
+
+export type Permission = 'read' | 'write' | 'delete';
+
+/**
+ * Scope granted to every authenticated session. `partitions: null` means all partitions.
+ */
+export interface AccessPolicy {
+  permissions: Permission[];
+  partitions: string[] | null;
+}
+
+/**
+ * Short-lived bearer tokens, kept in memory: a server restart forces clients back to the password.
+ */
+export class TokenIssuer {
+  private tokens = new Map<string, number>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  issue(): { token: string, expires_ms: number } {
+    this.prune();
+    const token = randomBytes(24).toString('base64url');
+    const expires_ms = Date.now() + this.ttlMs;
+    this.tokens.set(token, expires_ms);
+    return { token, expires_ms };
+  }
+
+  verify(token: string): boolean {
+    const expires = this.tokens.get(token);
+    return expires !== undefined && expires > Date.now();
+  }
+
+  revoke(token: string) {
+    this.tokens.delete(token);
+  }
+
+  private prune() {
+    const now = Date.now();
+    this.tokens.forEach((expires, token) => {
+      if (expires <= now) this.tokens.delete(token);
+    });
+  }
+}
+
+export interface ServerContext {
+  store: JsonRecordStore;
+  credentials: Credentials;
+  policy: AccessPolicy;
+  tokens: TokenIssuer;
+}
+
+class ProtocolError extends Error {}
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const optionalStringArray = (value: unknown): string[] | undefined =>
+  value === undefined ? undefined : asStringArray(value);
+
+const optionalObject = (value: unknown): Record<string, unknown> | undefined =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+
+const requireString = (msg: any, field: string): string => {
+  const value = msg[field];
+  if (typeof value === 'string' && value) return value;
+  if (typeof value === 'number') return String(value);
+  throw new ProtocolError(`Field "${field}" is required`);
+};
+
+const serialize = ({ partition, ...item }: StoredItem) => item;
+
+/**
+ * Serves one client socket until it closes.
+ */
+export const handleConnection = (socket: WebSocket, { store, credentials, policy, tokens }: ServerContext) => {
+  let authenticated = false;
+  let sessionToken: string | null = null;
+
+  const authorize = (permission: Permission, partition: string) => {
+    if (!policy.permissions.includes(permission)) throw new ProtocolError(`Permission "${permission}" denied`);
+    if (policy.partitions && !policy.partitions.includes(partition)) throw new ProtocolError(`Partition "${partition}" denied`);
+    return partition;
+  };
+
+  const rotateToken = () => {
+    if (sessionToken) tokens.revoke(sessionToken);
+    const issued = tokens.issue();
+    sessionToken = issued.token;
+    return issued;
+  };
+
+  const send = (payload: Record<string, unknown>) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(payload));
+  };
+
+  socket.on('message', (raw) => {
+    let msg: any;
+    try {
+      msg = JSON.parse(raw.toString());
+    } catch {
+      send({ type: 'error', message: 'Malformed JSON' });
+      return;
+    }
+    const reply = (payload: Record<string, unknown>) => send({ ...payload, request_id: msg.request_id });
+
+    try {
+      if (msg.type === 'auth') {
+        const viaToken = typeof msg.token === 'string' && tokens.verify(msg.token);
+        const viaPassword = msg.login === credentials.login && msg.password === credentials.password;
+        if (viaToken || viaPassword) {
+          authenticated = true;
+          if (viaToken) sessionToken = msg.token;
+          reply({ type: 'auth_ok', ...rotateToken(), permissions: policy.permissions, partitions: policy.partitions });
+        } else {
+          reply({ type: 'error', message: msg.token ? 'Token expired or invalid' : 'Invalid credentials' });
+        }
+        return;
+      }
+      if (!authenticated) throw new ProtocolError('Not authenticated');
+
+      switch (msg.type) {
+        case 'ping':
+          reply({ type: 'pong' });
+          return;
+
+        case 'refresh':
+          reply({ type: 'refreshed', ...rotateToken() });
+          return;
+
+        case 'insert': {
+          const item = store.insert(authorize('write', requireString(msg, 'partition')), {
+            data: requireString(msg, 'data'),
+            tags: asStringArray(msg.tags),
+            categories: asStringArray(msg.categories),
+            created_ms: typeof msg.created_ms === 'number' ? msg.created_ms : undefined,
+            meta: optionalObject(msg.meta),
+          });
+          reply({ type: 'inserted', id: item.id });
+          return;
+        }
+
+        case 'search': {
+          const { items, nextCursor } = store.search(authorize('read', requireString(msg, 'partition')), {
+            query: typeof msg.query === 'string' ? msg.query : undefined,
+            tags: asStringArray(msg.tags),
+            categories: asStringArray(msg.categories),
+            since_ms: typeof msg.since_ms === 'number' ? msg.since_ms : undefined,
+            until_ms: typeof msg.until_ms === 'number' ? msg.until_ms : undefined,
+            limit: typeof msg.limit === 'number' ? msg.limit : undefined,
+          }, typeof msg.cursor === 'string' ? msg.cursor : undefined);
+          reply({ type: 'search_results', items: items.map(serialize), next_cursor: nextCursor, filtered: true });
+          return;
+        }
+
+        case 'update': {
+          const id = requireString(msg, 'id');
+          const item = store.update(authorize('write', requireString(msg, 'partition')), id, {
+            data: typeof msg.data === 'string' ? msg.data : undefined,
+            tags: optionalStringArray(msg.tags),
+            categories: optionalStringArray(msg.categories),
+            meta: optionalObject(msg.meta),
+          });
+          if (!item) throw new ProtocolError(`Record ${id} not found`);
+          reply({ type: 'updated', id });
+          return;
+        }
+
+        case 'delete': {
+          const id = requireString(msg, 'id');
+          if (!store.delete(authorize('delete', requireString(msg, 'partition')), id)) throw new ProtocolError(`Record ${id} not found`);
+          reply({ type: 'deleted', id });
+          return;
+        }
+
+        default:
+          throw new ProtocolError(`Unknown message type: ${msg.type}`);
+      }
+    } catch (e: any) {
+      if (!(e instanceof ProtocolError)) console.error('[memory-core] Handler failure', e);
+      reply({ type: 'error', message: e.message });
+    }
+  });
+};
@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { matchesQuery, MemoryQuery } from '../utils/memory-store';
+
+// Records as they travel over the hk-db protocol
+export interface StoredItem {
+  id: string;
+  partition: string;
+  data: string;
+  tags: string[];
+  categories: string[];
+  created_ms: number;
+  updated_ms?: number;
+  // Client-owned metadata, stored and returned as-is
+  meta?: Record<string, unknown>;
+}
+
+export interface ItemPatch {
+  data?: string;
+  tags?: string[];
+  categories?: string[];
+  meta?: Record<string, unknown>;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+const FLUSH_DELAY_MS = 200;
+
+/**
+ * All partitions in one JSON file. Writes are debounced and replace the file atomically.
+ */
+export class JsonRecordStore {
+  private items = new Map<string, StoredItem>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private file: string;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.file, 'utf8');
+      const parsed = JSON.parse(raw);
+      const items: StoredItem[] = Array.isArray(parsed.items) ? parsed.items : [];
+      this.items = new Map(items.map(item => [item.id, item]));
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') throw e;
+      this.items = new Map();
+    }
+  }
+
+  insert(partition: string, fields: Required<Omit<ItemPatch, 'meta'>> & { created_ms?: number, meta?: Record<string, unknown> }): StoredItem {
+    const item: StoredItem = {
+      id: randomUUID(),
+      partition,
+      data: fields.data,
+      tags: fields.tags,
+      categories: fields.categories,
+      created_ms: fields.created_ms ?? Date.now(),
+      ...(fields.meta ? { meta: fields.meta } : {}),
+    };
+    this.items.set(item.id, item);
+    this.scheduleFlush();
+    return item;
+  }
+
+  update(partition: string, id: string, patch: ItemPatch): StoredItem | null {
+    const item = this.items.get(id);
+    if (!item || item.partition !== partition) return null;
+    if (patch.data !== undefined) item.data = patch.data;
+    if (patch.tags !== undefined) item.tags = patch.tags;
+    if (patch.categories !== undefined) item.categories = patch.categories;
+    if (patch.meta !== undefined) item.meta = patch.meta;
+    item.updated_ms = Date.now();
+    this.scheduleFlush();
+    return item;
+  }
+
+  delete(partition: string, id: string): boolean {
+    const item = this.items.get(id);
+    if (!item || item.partition !== partition) return false;
+    this.items.delete(id);
+    this.scheduleFlush();
+    return true;
+  }
+
+  /**
+   * Newest first. The cursor is the offset of the next page.
+   */
+  search(partition: string, filter: MemoryQuery, cursor?: string): { items: StoredItem[], nextCursor: string | null } {
+    // Items may carry several categories, so that part of the filter is applied here
+    const { categories, ...rest } = filter;
+    const wanted = (categories || []).map(c => c.toLowerCase());
+
+    const matches = [...this.items.values()]
+      .filter(item => item.partition === partition)
+      .filter(item => wanted.length === 0 || item.categories.some(c => wanted.includes(c.toLowerCase())))
+      .filter(item => matchesQuery({ content: item.data, category: item.categories[0] || '', tags: item.tags, created_ms: item.created_ms }, rest))
+      .sort((a, b) => b.created_ms - a.created_ms);
+
+    const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+    const limit = Math.min(filter.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const end = offset + limit;
+    return {
+      items: matches.slice(offset, end),
+      nextCursor: end < matches.length ? String(end) : null,
+    };
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify({ version: 1, items: [...this.items.values()] }, null, 2));
+    await fs.rename(tmp, this.file);
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(e => console.error('[memory-core] Flush failed', e));
+    }, FLUSH_DELAY_MS);
+  }
+}
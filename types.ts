@@ -15,3 +15,11 @@ export interface LogEntry {
   message: string;
   type: 'info' | 'error' | 'success';
 }
+
+export enum MemoryCoreState {
+  OFFLINE = 'OFFLINE',
+  CONNECTING = 'CONNECTING',
+  ONLINE = 'ONLINE',
+  RECONNECTING = 'RECONNECTING',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+}
@@ -0,0 +1,325 @@
+import { GoogleGenAI } from "@google/genai";
+import { tokenize } from "./memory-ranking";
+import { JsonSchema, stripDefaults, validateJson } from "./json-schema";
+
+export type { JsonSchema } from "./json-schema";
+
+// --- Analysis Models ---
+// The LLM behind ContextManager and the tagging agent. Every request carries a JSON Schema for its
+// answer and a deterministic rule-based fallback, so analysis keeps working offline or when the model fails.
+// Answers are validated against the schema; an invalid answer gets one repair round before the fallback.
+
+export type AnalysisProviderKind = 'gemini' | 'openai' | 'rules';
+
+export interface AnalysisConfig {
+  provider: AnalysisProviderKind;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  // OpenAI-compatible endpoint (llama.cpp server, Ollama, vLLM...)
+  baseUrl: string;
+  apiKey: string;
+}
+
+const parseNumber = (value: string | undefined, fallback: number) => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const defaultProvider = (): AnalysisProviderKind => {
+  const requested = process.env.HK_ANALYSIS_PROVIDER;
+  if (requested === 'gemini' || requested === 'openai' || requested === 'rules') return requested;
+  return process.env.API_KEY ? 'gemini' : 'rules';
+};
+
+const provider = defaultProvider();
+
+// The endpoint key is entered at runtime and kept in this browser only: anything inlined into the bundle ships to every visitor
+const API_KEY_STORAGE_KEY = 'hk47.analysisApiKey';
+
+const loadApiKey = (): string => {
+  try {
+    return (typeof localStorage !== 'undefined' ? localStorage.getItem(API_KEY_STORAGE_KEY) : null) || '';
+  } catch {
+    return '';
+  }
+};
+
+/** Single place for analysis model settings; overridable with HK_ANALYSIS_* variables (the API key with setAnalysisApiKey). */
+export const analysisConfig: AnalysisConfig = {
+  provider,
+  model: process.env.HK_ANALYSIS_MODEL || (provider === 'openai' ? 'llama3.1' : 'gemini-2.5-flash'),
+  temperature: parseNumber(process.env.HK_ANALYSIS_TEMPERATURE, 0.2),
+  timeoutMs: parseNumber(process.env.HK_ANALYSIS_TIMEOUT_MS, 8000),
+  baseUrl: process.env.HK_ANALYSIS_URL || 'http://localhost:11434/v1',
+  apiKey: loadApiKey(),
+};
+
+/**
+ * Sets the key for the OpenAI-compatible endpoint, or clears it with null. Takes effect on the next request.
+ */
+export const setAnalysisApiKey = (apiKey: string | null) => {
+  analysisConfig.apiKey = apiKey || '';
+  if (typeof localStorage === 'undefined') return;
+  if (apiKey) localStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+  else localStorage.removeItem(API_KEY_STORAGE_KEY);
+};
+
+export interface AnalysisRequest<T> {
+  // Short name, used as the schema name and in logs
+  task: string;
+  // Instructions; the input text is appended after them
+  prompt: string;
+  input: string;
+  schema: JsonSchema;
+  // Deterministic answer used by the rule-based model and whenever the LLM fails
+  fallback: (input: string) => T;
+  // Cancels the request; a cancelled request rejects with AnalysisAbortedError instead of falling back
+  signal?: AbortSignal;
+}
+
+export interface AnalysisModel {
+  id: string;
+  generateJson<T>(request: AnalysisRequest<T>): Promise<T>;
+}
+
+export class AnalysisTimeoutError extends Error {}
+
+/** The caller cancelled the request (e.g. a newer turn superseded it). */
+export class AnalysisAbortedError extends Error {}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AnalysisAbortedError('Analysis cancelled');
+};
+
+/** The model answered, but not with parseable JSON. */
+export class AnalysisResponseError extends Error {
+  constructor(message: string, public raw: string) {
+    super(message);
+  }
+}
+
+// --- Logging ---
+// Network failures (model unreachable, timeout) and validation failures (model answered badly) are
+// reported separately: the first is an infrastructure problem, the second a prompt or model problem.
+export type AnalysisLogKind = 'network' | 'validation' | 'repaired';
+
+export interface AnalysisLogEntry {
+  kind: AnalysisLogKind;
+  task: string;
+  model: string;
+  message: string;
+}
+
+type AnalysisLogCallback = (entry: AnalysisLogEntry) => void;
+const logListeners: AnalysisLogCallback[] = [];
+
+export const subscribeToAnalysisLogs = (callback: AnalysisLogCallback) => {
+  logListeners.push(callback);
+  return () => {
+    const index = logListeners.indexOf(callback);
+    if (index > -1) logListeners.splice(index, 1);
+  };
+};
+
+const emitAnalysisLog = (entry: AnalysisLogEntry) => {
+  logListeners.forEach(cb => cb(entry));
+  const line = `[Analysis] ${entry.kind} (${entry.task} on ${entry.model}): ${entry.message}`;
+  if (entry.kind === 'repaired') console.log(line);
+  else console.warn(line);
+};
+
+const composePrompt = (request: AnalysisRequest<unknown>) => `${request.prompt}\n\nВходящий текст: "${request.input}"`;
+
+/**
+ * Aborts the request after the configured timeout (AnalysisTimeoutError) or when the caller's
+ * signal fires (AnalysisAbortedError).
+ */
+const withTimeout = async <T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>, external?: AbortSignal): Promise<T> => {
+  throwIfAborted(external);
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  const timer = setTimeout(cancel, timeoutMs);
+  external?.addEventListener('abort', cancel);
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    throwIfAborted(external);
+    if (controller.signal.aborted) throw new AnalysisTimeoutError(`Analysis timed out after ${timeoutMs}ms`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    external?.removeEventListener('abort', cancel);
+  }
+};
+
+const parseJson = <T>(text: string | undefined | null): T => {
+  if (!text) throw new AnalysisResponseError('Empty model response', '');
+  try {
+    // Local models sometimes wrap the JSON in a markdown fence
+    return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '')) as T;
+  } catch {
+    throw new AnalysisResponseError('Response is not valid JSON', text);
+  }
+};
+
+export class GeminiAnalysisModel implements AnalysisModel {
+  id: string;
+  private ai: GoogleGenAI;
+
+  constructor(private config: AnalysisConfig = analysisConfig) {
+    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+    this.id = `gemini:${config.model}`;
+  }
+
+  async generateJson<T>(request: AnalysisRequest<T>): Promise<T> {
+    const response = await withTimeout(this.config.timeoutMs, signal => this.ai.models.generateContent({
+      model: this.config.model,
+      contents: composePrompt(request),
+      config: {
+        responseMimeType: "application/json",
+        responseJsonSchema: request.schema,
+        temperature: this.config.temperature,
+        abortSignal: signal,
+      }
+    }), request.signal);
+    return parseJson<T>(response.text);
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API, e.g. a local llama.cpp or Ollama for offline use.
+ */
+export class OpenAICompatibleAnalysisModel implements AnalysisModel {
+  id: string;
+
+  constructor(private config: AnalysisConfig = analysisConfig) {
+    this.id = `openai:${config.model}`;
+  }
+
+  async generateJson<T>(request: AnalysisRequest<T>): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`;
+
+    const body = await withTimeout(this.config.timeoutMs, async signal => {
+      const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model: this.config.model,
+          temperature: this.config.temperature,
+          messages: [
+            { role: 'system', content: request.prompt },
+            { role: 'user', content: request.input },
+          ],
+          response_format: { type: 'json_schema', json_schema: { name: request.task, schema: request.schema } },
+        }),
+      });
+      if (!response.ok) throw new Error(`Analysis endpoint responded ${response.status}`);
+      return response.json();
+    }, request.signal);
+    return parseJson<T>(body?.choices?.[0]?.message?.content);
+  }
+}
+
+/**
+ * No model at all: every request is answered by its own deterministic fallback.
+ */
+export class RuleBasedAnalysisModel implements AnalysisModel {
+  id = 'rules';
+
+  async generateJson<T>(request: AnalysisRequest<T>): Promise<T> {
+    return request.fallback(request.input);
+  }
+}
+
+const createModel = (config: AnalysisConfig): AnalysisModel => {
+  switch (config.provider) {
+    case 'gemini': return new GeminiAnalysisModel(config);
+    case 'openai': return new OpenAICompatibleAnalysisModel(config);
+    default: return new RuleBasedAnalysisModel();
+  }
+};
+
+let activeModel: AnalysisModel = createModel(analysisConfig);
+
+export const getAnalysisModel = () => activeModel;
+
+export const setAnalysisModel = (model: AnalysisModel) => {
+  activeModel = model;
+};
+
+const MAX_REPAIR_ECHO_CHARS = 2000;
+
+const repairRequest = <T>(request: AnalysisRequest<T>, raw: string, issues: string[]): AnalysisRequest<T> => ({
+  ...request,
+  prompt: `${request.prompt}
+
+## ИСПРАВЛЕНИЕ
+Твой предыдущий ответ не прошёл проверку схемы:
+${issues.map(i => `- ${i}`).join('\n')}
+Предыдущий ответ:
+${raw.slice(0, MAX_REPAIR_ECHO_CHARS)}
+Верни исправленный JSON, строго соответствующий схеме.`,
+});
+
+/**
+ * One model call. Unparseable or non-conforming answers come back as issues; network errors are thrown.
+ */
+const attempt = async <T>(model: AnalysisModel, request: AnalysisRequest<T>, schema: JsonSchema) => {
+  let parsed: unknown;
+  try {
+    parsed = await model.generateJson<unknown>(request as AnalysisRequest<unknown>);
+  } catch (error) {
+    if (error instanceof AnalysisResponseError) return { value: null as T | null, raw: error.raw, issues: [error.message] };
+    throw error;
+  }
+  const { value, issues } = validateJson<T>(schema, parsed);
+  return { value: issues.length ? null : value, raw: JSON.stringify(parsed), issues };
+};
+
+/**
+ * Runs a request on the active model and validates the answer against the request schema (defaults filled in).
+ * An invalid answer is retried once with a repair prompt; after that, or on a network error or timeout,
+ * the request's fallback answers instead. Cancellation is not a failure: it rejects with AnalysisAbortedError.
+ */
+export const analyzeJson = async <T>(request: AnalysisRequest<T>): Promise<T> => {
+  const model = activeModel;
+  const wire = { ...request, schema: stripDefaults(request.schema) };
+  const log = (kind: AnalysisLogKind, message: string) => emitAnalysisLog({ kind, task: request.task, model: model.id, message });
+
+  try {
+    const first = await attempt(model, wire, request.schema);
+    throwIfAborted(request.signal);
+    if (first.value !== null) return first.value;
+
+    const repaired = await attempt(model, repairRequest(wire, first.raw, first.issues), request.schema);
+    throwIfAborted(request.signal);
+    if (repaired.value !== null) {
+      log('repaired', `fixed after: ${first.issues.join('; ')}`);
+      return repaired.value;
+    }
+    log('validation', `${repaired.issues.join('; ')}; using rules`);
+  } catch (error: any) {
+    if (error instanceof AnalysisAbortedError || request.signal?.aborted) throw new AnalysisAbortedError('Analysis cancelled');
+    log('network', `${error?.message || error}; using rules`);
+  }
+  return request.fallback(request.input);
+};
+
+/**
+ * Distinct significant words in order of appearance, one per stem (for rule-based tags and queries).
+ */
+export const extractKeywords = (text: string, limit: number = 5): string[] => {
+  const seen = new Set<string>();
+  const keywords: string[] = [];
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    const [stem] = tokenize(word);
+    if (!stem || word.length < 3 || seen.has(stem)) continue;
+    seen.add(stem);
+    keywords.push(word);
+    if (keywords.length >= limit) break;
+  }
+  return keywords;
+};
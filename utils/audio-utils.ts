@@ -50,38 +50,6 @@ export function pcmToAudioBuffer(
   return buffer;
 }
 
-/**
- * Downsamples audio data from inputRate to outputRate.
- * Uses simple averaging (boxcar filter) which is sufficient for voice.
- */
-export function downsampleBuffer(buffer: Float32Array, inputRate: number, outputRate: number): Float32Array {
-  if (outputRate === inputRate) {
-    return buffer;
-  }
-  if (outputRate > inputRate) {
-    throw new Error("Upsampling not supported");
-  }
-  const sampleRatio = inputRate / outputRate;
-  const newLength = Math.round(buffer.length / sampleRatio);
-  const result = new Float32Array(newLength);
-  let offsetResult = 0;
-  let offsetBuffer = 0;
-  
-  while (offsetResult < result.length) {
-    const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRatio);
-    // Simple averaging to prevent aliasing artifacts
-    let accum = 0, count = 0;
-    for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
-      accum += buffer[i];
-      count++;
-    }
-    result[offsetResult] = count > 0 ? accum / count : 0;
-    offsetResult++;
-    offsetBuffer = nextOffsetBuffer;
-  }
-  return result;
-}
-
 /**
  * Creates a blob suitable for Gemini Live API from Float32Array input (mic).
  * Converts Float32 (-1.0 to 1.0) to Int16 PCM.
@@ -1,143 +1,501 @@
-
-import { GoogleGenAI, Type } from "@google/genai";
-import { saveMemory, searchMemories, formatMemoriesForPrompt } from "./memory-db";
+import { saveMemory, searchMemories, updateMemory, getCoreMemories, formatMemoriesForPrompt, MemoryMeta } from "./memory-db";
+import { AnalysisAbortedError, analyzeJson, extractKeywords, JsonSchema } from "./analysis-model";
+import { confidenceLabel } from "./memory-ranking";
+import { getOperatorProfile } from "./operator-profiles";
+import { DialogueRole, DialogueWindow } from "./dialogue-window";
+import { enrichTags, expandTags, normalizeTags } from "./tag-vocabulary";
 
 const CONTEXT_AGENT_PROMPT = `
 Ты — аналитический модуль ядра памяти дроида. Твоя задача — классифицировать входящий запрос пользователя и структурировать данные.
 
-1. Проанализируй входящий текст пользователя.
-2. Определи ИНТЕНТ (Намерение):
-   - "SAVE": Пользователь сообщает факт о себе, правило, предпочтение или информацию, которую стоит запомнить.
+1. Проанализируй входящий текст пользователя. Одна реплика может содержать НЕСКОЛЬКО намерений
+   ("запомни, что я переехал в Казань, и что я говорил про машину?") — верни отдельное действие для каждого, в порядке реплики.
+2. Для каждого действия определи ИНТЕНТ (Намерение):
+   - "SAVE": Пользователь сообщает новый факт о себе, правило, предпочтение или информацию, которую стоит запомнить.
+   - "UPDATE": Пользователь уточняет или меняет ранее известный факт ("я переехал", "теперь я", "больше не").
+   - "FORGET": Пользователь просит забыть или стереть что-то.
+   - "TASK": Пользователь ставит задачу или просит напомнить о деле ("напомни мне завтра позвонить").
+   - "QUESTION_ABOUT_SELF": Пользователь спрашивает, что дроид знает о нём самом ("кто я?", "что ты обо мне знаешь?").
    - "RETRIEVE": Пользователь спрашивает о прошлом, просит что-то вспомнить или вопрос требует контекста из базы знаний.
-   - "NONE": Обычный разговор, приветствие, эмоции, не требующие работы с памятью.
+   - "NONE": Обычный разговор, приветствие, эмоции, не требующие работы с памятью. Если в реплике нет других действий, верни одно действие "NONE".
 
-3. В зависимости от интента заполни JSON:
+3. В зависимости от интента заполни поля действия:
 
-ЕСЛИ "SAVE":
+ЕСЛИ "SAVE" -> saveData:
 - content: Суть информации для сохранения (очищенная от лишних слов).
 - category: Категория выбранная по смыслу из введенного текста.
 - tags: Список ключевых тегов (3-5 шт) понятия  которые встечаются в тексте.
+- importance: Важность от 1 (мелочь) до 5 (критично: здоровье, безопасность, ключевые факты о пользователе). Обычный факт — 3.
+- pinned: true ТОЛЬКО если пользователь явно просит помнить это всегда ("запомни навсегда", "никогда не забывай"), иначе false.
+- ttl_days: Через сколько дней факт устареет, если он временный ("на этой неделе", "завтра", "сегодня"); null для постоянных фактов.
+
+ЕСЛИ "UPDATE" -> updateData:
+- query: Поисковый запрос для нахождения старой записи ("город проживания").
+- content: Новая формулировка факта целиком.
+- category, tags: Новые значения или null, если не меняются.
 
-ЕСЛИ "RETRIEVE":
+ЕСЛИ "TASK" -> taskData:
+- content: Что нужно сделать.
+- tags: Теги задачи.
+- due_days: Через сколько дней срок (0 — сегодня, 1 — завтра); null, если срок не назван.
+
+ЕСЛИ "RETRIEVE", "FORGET" или "QUESTION_ABOUT_SELF" -> searchData:
 - query: Поисковый запрос, оптимизированный для поиска в базе.
 - tags: Теги для ассоциативного поиска.
 
-ЕСЛИ "NONE":
-- Верни intent "NONE".
+Для КАЖДОГО действия:
+- confidence: Уверенность от 0 до 1, что действие действительно нужно. Для SAVE и TASK: явная просьба запомнить
+  или ясный факт о себе — 0.8 и выше; болтовня, шутки, гипотетические и чужие фразы — ниже 0.5.
+
+4. Если дан КОНТЕКСТ ДИАЛОГА, используй его, чтобы раскрыть местоимения и отсылки ("он", "это", "тот самый", "там"):
+   content в saveData/updateData/taskData должен быть понятен без диалога ("Брат оператора Иван живёт в Казани", а не "Он живёт там"),
+   query — содержать явные сущности. Действия извлекай ТОЛЬКО из входящего текста; контекст не сохраняй повторно.
 
 Ответ ТОЛЬКО в формате JSON.
 Схема:
 {
-  "intent": "SAVE" | "RETRIEVE" | "NONE",
-  "saveData": { "content": "string", "category": "string", "tags": ["string"] } | null,
-  "searchData": { "query": "string", "tags": ["string"] } | null
+  "actions": [{
+    "intent": "SAVE" | "UPDATE" | "FORGET" | "TASK" | "QUESTION_ABOUT_SELF" | "RETRIEVE" | "NONE",
+    "confidence": 0-1,
+    "saveData": { "content": "string", "category": "string", "tags": ["string"], "importance": 1-5, "pinned": boolean, "ttl_days": number | null } | null,
+    "updateData": { "query": "string", "content": "string", "category": "string" | null, "tags": ["string"] | null } | null,
+    "taskData": { "content": "string", "tags": ["string"], "due_days": number | null } | null,
+    "searchData": { "query": "string", "tags": ["string"] } | null
+  }]
 }
 `;
 
+type ContextIntent = 'SAVE' | 'UPDATE' | 'FORGET' | 'TASK' | 'QUESTION_ABOUT_SELF' | 'RETRIEVE' | 'NONE';
+
+interface SaveData {
+  content: string;
+  category: string;
+  tags: string[];
+  importance?: number;
+  pinned?: boolean;
+  ttl_days?: number | null;
+}
+
+interface UpdateData {
+  query: string;
+  content: string;
+  category?: string | null;
+  tags?: string[] | null;
+}
+
+interface TaskData {
+  content: string;
+  tags: string[];
+  due_days?: number | null;
+}
+
+interface SearchData {
+  query: string;
+  tags: string[];
+}
+
+interface ContextAction {
+  intent: ContextIntent;
+  confidence?: number;
+  saveData?: SaveData | null;
+  updateData?: UpdateData | null;
+  taskData?: TaskData | null;
+  searchData?: SearchData | null;
+}
+
 interface ContextAnalysisResult {
-  intent: 'SAVE' | 'RETRIEVE' | 'NONE';
-  saveData?: {
-    content: string;
-    category: string;
-    tags: string[];
-  };
-  searchData?: {
-    query: string;
-    tags: string[];
+  actions: ContextAction[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Guards against a runaway model response; a single utterance rarely holds more
+const MAX_ACTIONS = 5;
+const TASK_CATEGORY = 'task';
+const TASK_IMPORTANCE = 4;
+
+// New records below this confidence wait for the operator's spoken yes/no
+const CONFIRMATION_THRESHOLD = 0.7;
+const CONFIRMABLE_INTENTS: ContextIntent[] = ['SAVE', 'TASK'];
+// A question left unanswered this long is treated as declined
+const CONFIRMATION_TTL_MS = 2 * 60 * 1000;
+const CONFIRM_YES = /^\s*(да|ага|угу|конечно|верно|подтверждаю|зафиксируй|запиши|сохрани|yes|yeah|yep|sure|ok|okay|окей|confirm)(?=$|[^\p{L}])/iu;
+const CONFIRM_NO = /^\s*(нет|не надо|не нужно|не стоит|отмена|отставить|no|nope|don't|cancel)(?=$|[^\p{L}])/iu;
+
+interface PendingConfirmation {
+  actions: ContextAction[];
+  asked_ms: number;
+}
+
+const INTENTS: ContextIntent[] = ['SAVE', 'UPDATE', 'FORGET', 'TASK', 'QUESTION_ABOUT_SELF', 'RETRIEVE', 'NONE'];
+
+// Defaults are filled in by validation, so handlers can rely on every field being present
+const stringList = { type: 'array', items: { type: 'string' }, default: [] };
+const searchSchema = {
+  type: ['object', 'null'],
+  properties: { query: { type: 'string' }, tags: stringList },
+  required: ['query'],
+  default: null
+};
+
+const CONTEXT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    actions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          intent: { type: 'string', enum: INTENTS },
+          // Omitted by older prompts and models: treated as certain rather than prompting on every save
+          confidence: { type: 'number', default: 1 },
+          saveData: {
+            type: ['object', 'null'],
+            properties: {
+              content: { type: 'string' },
+              category: { type: 'string', default: 'general' },
+              tags: stringList,
+              importance: { type: 'integer', default: 3 },
+              pinned: { type: 'boolean', default: false },
+              ttl_days: { type: ['number', 'null'], default: null }
+            },
+            required: ['content'],
+            default: null
+          },
+          updateData: {
+            type: ['object', 'null'],
+            properties: {
+              query: { type: 'string' },
+              content: { type: 'string' },
+              category: { type: ['string', 'null'], default: null },
+              tags: { type: ['array', 'null'], items: { type: 'string' }, default: null }
+            },
+            required: ['query', 'content'],
+            default: null
+          },
+          taskData: {
+            type: ['object', 'null'],
+            properties: {
+              content: { type: 'string' },
+              tags: stringList,
+              due_days: { type: ['number', 'null'], default: null }
+            },
+            required: ['content'],
+            default: null
+          },
+          searchData: searchSchema
+        },
+        required: ['intent']
+      },
+      default: []
+    }
+  },
+  required: ['actions']
+};
+
+// --- Rule-based fallback ---
+// Cue phrases only; good enough to keep explicit "remember"/"do you remember" requests working without a model.
+// Checked in this order, so the more specific cues win ("напомни мне завтра" is a task, not a lookup).
+const FORGET_CUES = /(забудь|сотри|удали из памяти|forget)/i;
+const TASK_CUES = /(напомни мне (завтра|сегодня|через|в )|не забудь|поставь задачу|добавь задачу|remind me to|add a task|todo)/i;
+const SELF_CUES = /(кто я|что ты (знаешь )?обо мне( знаешь)?|who am i|what do you know about me)/i;
+const RETRIEVE_CUES = /(помнишь|вспомни|напомни|что я (говорил|рассказывал|люблю)|как меня зовут|do you remember|remind me|what did i|what do i like|what's my|what is my)/i;
+const UPDATE_CUES = /(теперь|больше не|уже не|исправь|на самом деле|переехал|сменил|actually|no longer|i moved|now i)/i;
+const SAVE_CUES = /(запомни|зафиксируй|сохрани|меня зовут|я люблю|я не люблю|мой любимый|моя любимая|remember that|my name is|i like|i love|i hate|my favorite)/i;
+const PIN_CUES = /(навсегда|никогда не забывай|всегда помни|forever|never forget|always remember)/i;
+const TTL_CUES: [RegExp, number][] = [
+  [/(сегодня|today|tonight)/i, 1],
+  [/(завтра|tomorrow)/i, 2],
+  [/(на этой неделе|this week)/i, 7],
+];
+// Clause boundaries for multi-intent utterances: sentence ends and ", и"/", а"/", and"
+const CLAUSE_SPLIT = /[.?!;]+\s+|,\s*(?:и|а|но|and|but)\s+/i;
+
+const stripCues = (text: string, ...cues: RegExp[]) =>
+  cues.reduce((t, cue) => t.replace(cue, ''), text).replace(/^[\s,:;-]+/, '').trim();
+
+const searchByRules = (clause: string, cue: RegExp): SearchData => {
+  const tags = extractKeywords(stripCues(clause, cue));
+  return { query: tags.join(' ') || clause, tags };
+};
+
+const classifyClause = (clause: string): ContextAction => {
+  if (FORGET_CUES.test(clause)) return { intent: 'FORGET', searchData: searchByRules(clause, FORGET_CUES) };
+  if (TASK_CUES.test(clause)) {
+    const content = stripCues(clause, TASK_CUES) || clause;
+    const due = TTL_CUES.find(([cue]) => cue.test(clause))?.[1];
+    return { intent: 'TASK', confidence: 0.9, taskData: { content, tags: extractKeywords(content), due_days: due === undefined ? null : due - 1 } };
+  }
+  if (SELF_CUES.test(clause)) return { intent: 'QUESTION_ABOUT_SELF', searchData: searchByRules(clause, SELF_CUES) };
+  if (RETRIEVE_CUES.test(clause)) return { intent: 'RETRIEVE', searchData: searchByRules(clause, RETRIEVE_CUES) };
+
+  const leadingCue = /^\s*(запомни|зафиксируй|сохрани|remember that|remember)[,:\s]*/i;
+  const content = stripCues(clause, leadingCue, PIN_CUES) || clause;
+  if (UPDATE_CUES.test(clause)) {
+    return { intent: 'UPDATE', updateData: { query: extractKeywords(stripCues(content, UPDATE_CUES)).join(' '), content } };
+  }
+  if (SAVE_CUES.test(clause)) {
+    // An explicit "запомни" is certain; a statement that merely sounds like a fact is worth a question
+    return {
+      intent: 'SAVE',
+      confidence: leadingCue.test(clause) ? 0.9 : 0.6,
+      saveData: {
+        content,
+        category: 'general',
+        tags: extractKeywords(content),
+        importance: 3,
+        pinned: PIN_CUES.test(clause),
+        ttl_days: TTL_CUES.find(([cue]) => cue.test(clause))?.[1] ?? null,
+      }
+    };
+  }
+  return { intent: 'NONE' };
+};
+
+const analyzeByRules = (text: string): ContextAnalysisResult => {
+  const actions = text.split(CLAUSE_SPLIT).map(c => c.trim()).filter(Boolean).map(classifyClause);
+  return { actions };
+};
+
+/**
+ * Accepts the legacy single-intent shape too, and drops actions without their payload.
+ */
+const normalizeAnalysis = (raw: any): ContextAnalysisResult => {
+  const actions: ContextAction[] = raw?.actions?.length ? raw.actions : raw?.intent ? [raw] : [];
+  return {
+    actions: actions
+      .filter(a => INTENTS.includes(a?.intent) && a.intent !== 'NONE')
+      .filter(a => {
+        switch (a.intent) {
+          case 'SAVE': return !!a.saveData?.content;
+          case 'UPDATE': return !!a.updateData?.content;
+          case 'TASK': return !!a.taskData?.content;
+          default: return !!a.searchData?.query;
+        }
+      })
+      .slice(0, MAX_ACTIONS),
   };
+};
+
+const describeAction = (action: ContextAction): string => {
+  let log = `Intent: ${action.intent}`;
+  if (typeof action.confidence === 'number' && action.confidence < 1) log += ` (${action.confidence.toFixed(2)})`;
+  const { saveData, updateData, taskData, searchData } = action;
+  if (saveData) {
+    log += ` | Category: ${saveData.category} | Tags: [${(saveData.tags || []).join(', ')}]`;
+    if (saveData.importance) log += ` | Importance: ${saveData.importance}`;
+    if (saveData.pinned) log += ` | PINNED`;
+  } else if (updateData) {
+    log += ` | Query: "${updateData.query}" | New: "${updateData.content}"`;
+  } else if (taskData) {
+    log += ` | Task: "${taskData.content}"`;
+    if (typeof taskData.due_days === 'number') log += ` | Due: +${taskData.due_days}d`;
+  } else if (searchData) {
+    log += ` | Query: "${searchData.query}" | Tags: [${(searchData.tags || []).join(', ')}]`;
+  }
+  return log;
+};
+
+export interface StageTiming {
+  stage: string;
+  ms: number;
+}
+
+export interface ContextResult {
+  injection: string | null;
+  log: string | null;
+  // Set when the caller's signal fired; the injection is then always null
+  cancelled: boolean;
+  // Low-confidence writes the injection asks the operator about; held only once the caller delivers it
+  confirmation: ContextAction[] | null;
+  timings: StageTiming[];
 }
 
+// Lookups only serve the turn that asked for them; writes are what the operator asked to keep
+const READ_ONLY_INTENTS: ContextIntent[] = ['RETRIEVE', 'FORGET', 'QUESTION_ABOUT_SELF'];
+
+export const formatStageTimings = (timings: StageTiming[]) =>
+  timings.map(t => `${t.stage} ${Math.round(t.ms)}ms`).join(', ');
+
+const needsConfirmation = (action: ContextAction) =>
+  CONFIRMABLE_INTENTS.includes(action.intent) && (action.confidence ?? 1) < CONFIRMATION_THRESHOLD;
+
+const pendingContent = (action: ContextAction) => action.saveData?.content || action.taskData?.content || '';
+
+// Asks HK-47 to put the question to the operator
+const confirmationQuestion = (actions: ContextAction[]) => {
+  const subject = actions.map(a => `«${pendingContent(a)}»`).join(', ');
+  return `[SYSTEM ALERT: Запись не подтверждена. Спроси оператора дословно: "Переспрос: Зафиксировать ${subject}?" — и жди ответа да/нет. Ничего не сохраняй сам.]`;
+};
+
 export class ContextManager {
-  private ai: GoogleGenAI;
-  private model: string = 'gemini-2.5-flash';
+  private dialogue = new DialogueWindow();
+  private pending: PendingConfirmation | null = null;
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+  /**
+   * Records an HK-47 reply (or any other turn) so later utterances can refer to it.
+   */
+  recordTurn(role: DialogueRole, text: string) {
+    this.dialogue.push(role, text);
   }
 
   /**
-   * Processes the user text, decides action, executes DB op, and returns a context string for HK-47.
-   * Now returns an object containing the system injection string and a log string for the UI.
+   * Forgets the dialogue context and any unconfirmed save, e.g. when the session ends or another operator takes over.
    */
-  async processUserContext(text: string): Promise<{ injection: string | null, log: string | null }> {
-    if (!text.trim()) return { injection: null, log: null };
+  resetDialogue() {
+    this.dialogue.reset();
+    this.pending = null;
+  }
 
-    try {
-      // 1. Analyze Intent
-      const analysis = await this.analyzeText(text);
-      console.log("Context Agent Decision:", analysis);
+  /**
+   * Processes the user text, executes every memory action found in it (in order) and returns
+   * the combined system injection for HK-47, a log string for the UI and per-stage timings.
+   *
+   * Aborting the signal cancels the model call. Once analysis is done, writes still complete (a
+   * superseded "remember X" is not lost), but lookups are skipped and no injection is returned.
+   */
+  async processUserContext(text: string, options: { signal?: AbortSignal } = {}): Promise<ContextResult> {
+    const { signal } = options;
+    const timings: StageTiming[] = [];
+    const started = performance.now();
+    const timed = async <T>(stage: string, run: () => Promise<T>): Promise<T> => {
+      const t0 = performance.now();
+      try {
+        return await run();
+      } finally {
+        timings.push({ stage, ms: performance.now() - t0 });
+      }
+    };
+    const result = (partial: Partial<ContextResult>): ContextResult => {
+      timings.push({ stage: 'total', ms: performance.now() - started });
+      console.log(`Context Agent timings: ${formatStageTimings(timings)}`);
+      return { injection: null, log: null, cancelled: !!signal?.aborted, confirmation: null, timings, ...partial };
+    };
 
-      let logString = `[ANALYSIS UNIT] Intent: ${analysis.intent}`;
+    if (!text.trim()) return { injection: null, log: null, cancelled: false, confirmation: null, timings };
 
-      // 2. Branching Logic & Logging Construction
-      if (analysis.intent === 'SAVE' && analysis.saveData) {
-        logString += ` | Category: ${analysis.saveData.category} | Tags: [${analysis.saveData.tags.join(', ')}]`;
-        const injection = await this.handleSave(analysis.saveData);
-        return { injection, log: logString };
+    const injections: string[] = [];
+    const logs: string[] = [];
+    const combined = () => ({
+      injection: signal?.aborted || injections.length === 0 ? null : injections.join('\n'),
+      log: logs.length ? `[ANALYSIS UNIT] ${logs.join(' || ')}` : null,
+    });
 
-      } else if (analysis.intent === 'RETRIEVE' && analysis.searchData) {
-        logString += ` | Query: "${analysis.searchData.query}" | Tags: [${analysis.searchData.tags.join(', ')}]`;
-        const injection = await this.handleRetrieve(analysis.searchData);
-        return { injection, log: logString };
-      }
+    try {
+      // This turn answers a pending confirmation question (a write, so it completes even if superseded)
+      if (this.pending) await timed('confirmation', () => this.resolvePending(text, injections, logs));
+
+      // The window is rendered before this turn joins it, and joins before HK-47 can reply to it
+      const dialogue = this.dialogue.render();
+      this.dialogue.push('OPERATOR', text);
+      const analysis = await timed('analysis', () => this.analyzeText(text, dialogue, signal));
+      console.log("Context Agent Decision:", analysis);
 
-      return { injection: null, log: analysis.intent === 'NONE' ? null : logString };
+      // Sequential: an UPDATE earlier in the utterance should be visible to a RETRIEVE after it
+      const unconfirmed: ContextAction[] = [];
+      for (const action of analysis.actions) {
+        if (needsConfirmation(action)) {
+          logs.push(`${describeAction(action)} | AWAITING CONFIRMATION`);
+          unconfirmed.push(action);
+          continue;
+        }
+        logs.push(describeAction(action));
+        if (!(signal?.aborted && READ_ONLY_INTENTS.includes(action.intent))) {
+          injections.push(await timed(action.intent, () => this.executeAction(action)));
+        }
+      }
+      // A superseded turn can no longer ask, so its unconfirmed writes are dropped
+      if (unconfirmed.length && !signal?.aborted) {
+        injections.push(confirmationQuestion(unconfirmed));
+        return result({ ...combined(), confirmation: unconfirmed });
+      }
+      return result(combined());
 
     } catch (error) {
+      if (error instanceof AnalysisAbortedError) return result({ ...combined(), cancelled: true });
       console.error("Context Manager Error:", error);
-      return { injection: null, log: "[ANALYSIS UNIT] Error processing context." };
+      return result({ log: "[ANALYSIS UNIT] Error processing context." });
     }
   }
 
-  private async analyzeText(text: string): Promise<ContextAnalysisResult> {
-    const response = await this.ai.models.generateContent({
-      model: this.model,
-      contents: `${CONTEXT_AGENT_PROMPT}\n\nВходящий запрос: "${text}"`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-                intent: { type: Type.STRING, enum: ["SAVE", "RETRIEVE", "NONE"] },
-                saveData: {
-                    type: Type.OBJECT,
-                    properties: {
-                        content: { type: Type.STRING },
-                        category: { type: Type.STRING },
-                        tags: { type: Type.ARRAY, items: { type: Type.STRING } }
-                    },
-                    nullable: true
-                },
-                searchData: {
-                    type: Type.OBJECT,
-                    properties: {
-                        query: { type: Type.STRING },
-                        tags: { type: Type.ARRAY, items: { type: Type.STRING } }
-                    },
-                    nullable: true
-                }
-            }
-        }
-      }
+  /**
+   * Holds the low-confidence writes of a delivered confirmation question until the operator answers.
+   * Call it only once the injection reaches HK-47: a dropped question must not turn the next "да" into a save.
+   * A newer question replaces an unanswered one.
+   */
+  confirmationAsked(actions: ContextAction[]) {
+    this.pending = { actions, asked_ms: Date.now() };
+  }
+
+  /**
+   * "Да" saves the held records, "нет" drops them; anything else (or a stale question) counts as declined.
+   */
+  private async resolvePending(text: string, injections: string[], logs: string[]) {
+    const { actions, asked_ms } = this.pending!;
+    this.pending = null;
+    const subject = actions.map(pendingContent).join('; ');
+    const accepted = Date.now() - asked_ms <= CONFIRMATION_TTL_MS && CONFIRM_YES.test(text) && !CONFIRM_NO.test(text);
+
+    if (!accepted) {
+      const reason = CONFIRM_NO.test(text) ? 'declined' : 'no answer';
+      logs.push(`Confirmation DECLINED (${reason}): "${subject}"`);
+      console.log(`Context Agent: confirmation declined (${reason}) for "${subject}"`);
+      if (reason === 'declined') injections.push(`[SYSTEM ALERT: Оператор отказался. Запись «${subject}» не сохранена.]`);
+      return;
+    }
+    logs.push(`Confirmation ACCEPTED: "${subject}"`);
+    console.log(`Context Agent: confirmation accepted for "${subject}"`);
+    for (const action of actions) {
+      injections.push(await this.executeAction(action));
+    }
+  }
+
+  private async analyzeText(text: string, dialogue: string | null, signal?: AbortSignal): Promise<ContextAnalysisResult> {
+    const result = await analyzeJson<ContextAnalysisResult>({
+      task: 'context_analysis',
+      prompt: dialogue ? `${CONTEXT_AGENT_PROMPT}\n## КОНТЕКСТ ДИАЛОГА\n${dialogue}` : CONTEXT_AGENT_PROMPT,
+      input: text,
+      schema: CONTEXT_SCHEMA,
+      fallback: analyzeByRules,
+      signal,
     });
+    return normalizeAnalysis(result);
+  }
 
-    const jsonText = response.text;
-    if (!jsonText) return { intent: 'NONE' };
-    return JSON.parse(jsonText) as ContextAnalysisResult;
+  private executeAction(action: ContextAction): Promise<string> {
+    switch (action.intent) {
+      case 'SAVE': return this.handleSave(action.saveData!);
+      case 'UPDATE': return this.handleUpdate(action.updateData!);
+      case 'FORGET': return this.handleForget(action.searchData!);
+      case 'TASK': return this.handleTask(action.taskData!);
+      case 'QUESTION_ABOUT_SELF': return this.handleSelfQuestion(action.searchData!);
+      default: return this.handleRetrieve(action.searchData!);
+    }
   }
 
-  private async handleSave(data: { content: string, category: string, tags: string[] }): Promise<string> {
+  /**
+   * Importance is clamped to 1..5; a positive ttl_days becomes an absolute expiry.
+   */
+  private buildMeta(data: SaveData): MemoryMeta {
+    const meta: MemoryMeta = { access_count: 0 };
+    if (typeof data.importance === 'number') meta.importance = Math.min(5, Math.max(1, Math.round(data.importance)));
+    if (data.pinned) meta.pinned = true;
+    if (typeof data.ttl_days === 'number' && data.ttl_days > 0) meta.expires_ms = Date.now() + data.ttl_days * DAY_MS;
+    return meta;
+  }
+
+  private async handleSave(data: SaveData): Promise<string> {
     try {
-      await saveMemory(data.content, data.category, data.tags);
-      return `[SYSTEM ALERT: Новая запись сохранена в ядре памяти. Категория: ${data.category}. Теги: ${data.tags.join(', ')}]`;
+      const tags = await enrichTags(data.content, data.tags);
+      await saveMemory(data.content, data.category, tags, undefined, this.buildMeta(data));
+      return `[SYSTEM ALERT: Новая запись сохранена в ядре памяти. Категория: ${data.category}. Теги: ${tags.join(', ')}]`;
     } catch (e) {
       return `[SYSTEM ERROR: Сбой записи памяти.]`;
     }
   }
 
-  private async handleRetrieve(data: { query: string, tags: string[] }): Promise<string> {
+  private async handleRetrieve(data: SearchData): Promise<string> {
     try {
-      const memories = await searchMemories(data.query, data.tags);
+      const memories = await searchMemories(data.query, expandTags(data.tags || []));
       if (memories.length === 0) return `[SYSTEM ALERT: По запросу "${data.query}" данных в архивах не найдено.]`;
       
       const formatted = formatMemoriesForPrompt(memories);
@@ -146,6 +504,79 @@ export class ContextManager {
       return `[SYSTEM ERROR: Сбой чтения памяти.]`;
     }
   }
+
+  /**
+   * Rewrites the single record that clearly matches. Several strong matches are left to HK-47 to
+   * disambiguate; with none, the new fact is stored as a fresh record.
+   */
+  private async handleUpdate(data: UpdateData): Promise<string> {
+    try {
+      const matches = data.query ? await searchMemories(data.query) : [];
+      const strong = matches.filter(m => confidenceLabel(m.confidence) === 'HIGH');
+      const patch = { content: data.content, ...(data.category ? { category: data.category } : {}), ...(data.tags?.length ? { tags: await normalizeTags(data.tags) } : {}) };
+
+      if (strong.length === 1) {
+        const ok = await updateMemory(strong[0].id!, patch, strong[0].partition);
+        return ok
+          ? `[SYSTEM ALERT: Запись ${strong[0].id} обновлена: ${data.content}]`
+          : `[SYSTEM ERROR: Сбой обновления записи ${strong[0].id}.]`;
+      }
+      if (strong.length > 1) {
+        return `[SYSTEM ALERT: Несколько записей подходят для обновления. Уточни у оператора, какую изменить, и вызови \`amendMemoryCore\` с её id:]\n${formatMemoriesForPrompt(strong)}`;
+      }
+      const tags = await enrichTags(data.content, data.tags || []);
+      await saveMemory(data.content, data.category || 'general', tags, undefined, { access_count: 0 });
+      return `[SYSTEM ALERT: Прежняя запись не найдена, факт сохранён как новый: ${data.content}]`;
+    } catch (e) {
+      return `[SYSTEM ERROR: Сбой обновления памяти.]`;
+    }
+  }
+
+  /**
+   * Never deletes on its own: candidates go to HK-47, which confirms with the operator and purges by id.
+   */
+  private async handleForget(data: SearchData): Promise<string> {
+    try {
+      const matches = await searchMemories(data.query, expandTags(data.tags || []));
+      if (matches.length === 0) return `[SYSTEM ALERT: Записей для удаления по запросу "${data.query}" не найдено.]`;
+      return `[SYSTEM ALERT: Оператор просит забыть данные. Кандидаты на удаление ниже. Зачитай подходящую запись, запроси подтверждение и только после явного "да" вызови \`purgeFromMemoryCore\` с её id и confirmed=true.]\n${formatMemoriesForPrompt(matches)}`;
+    } catch (e) {
+      return `[SYSTEM ERROR: Сбой чтения памяти.]`;
+    }
+  }
+
+  /**
+   * Tasks are stored as important records, so they reach the core memory preload; a due date makes
+   * the task expire the day after.
+   */
+  private async handleTask(data: TaskData): Promise<string> {
+    try {
+      const meta: MemoryMeta = { importance: TASK_IMPORTANCE, access_count: 0 };
+      const due = typeof data.due_days === 'number' && data.due_days >= 0 ? Date.now() + data.due_days * DAY_MS : null;
+      if (due !== null) meta.expires_ms = due + DAY_MS;
+      const tags = [TASK_CATEGORY, ...(await normalizeTags(data.tags || [])).filter(t => t !== TASK_CATEGORY)];
+      await saveMemory(data.content, TASK_CATEGORY, tags, undefined, meta);
+      const when = due !== null ? ` Срок: ${new Date(due).toLocaleDateString()}.` : '';
+      return `[SYSTEM ALERT: Задача зафиксирована: ${data.content}.${when}]`;
+    } catch (e) {
+      return `[SYSTEM ERROR: Сбой записи задачи.]`;
+    }
+  }
+
+  /**
+   * What the archive holds about the operator: search hits, or the core records when the query finds nothing.
+   */
+  private async handleSelfQuestion(data: SearchData): Promise<string> {
+    try {
+      const operator = getOperatorProfile().name;
+      const found = await searchMemories(data.query, expandTags(data.tags || []));
+      const memories = found.length ? found : await getCoreMemories();
+      if (memories.length === 0) return `[SYSTEM ALERT: Оператор «${operator}». Личных данных в архивах не найдено.]`;
+      return `[SYSTEM DATA INJECTION: Данные об операторе «${operator}»]\n${formatMemoriesForPrompt(memories)}`;
+    } catch (e) {
+      return `[SYSTEM ERROR: Сбой чтения памяти.]`;
+    }
+  }
 }
 
 export const contextManager = new ContextManager();
@@ -0,0 +1,88 @@
+import { analyzeJson } from "./analysis-model";
+
+// Rolling dialogue context for the analysis unit: the latest turns verbatim, older ones folded into
+// a running summary, so pronouns ("он", "это", "тот самый") can be resolved against earlier turns.
+
+export type DialogueRole = 'OPERATOR' | 'HK-47';
+
+export interface DialogueTurn {
+  role: DialogueRole;
+  text: string;
+  at_ms: number;
+}
+
+const MAX_TURNS = 12;
+// Overflowing turns are summarized in batches rather than one by one
+const SUMMARY_BATCH = 6;
+const MAX_TURN_CHARS = 500;
+const MAX_SUMMARY_CHARS = 1500;
+
+const SUMMARY_PROMPT = `
+Ты ведёшь сжатую сводку диалога оператора с дроидом HK-47 для модуля памяти.
+Объедини прежнюю сводку и новые реплики в одну сводку на русском языке, не длиннее 8 предложений.
+Сохрани имена, сущности, о которых шла речь, факты об операторе и открытые вопросы; опусти приветствия и эмоции дроида.
+Ответ ТОЛЬКО в формате JSON: { "summary": "string" }
+`;
+
+const formatTurns = (turns: DialogueTurn[]) => turns.map(t => `${t.role}: ${t.text}`).join('\n');
+
+const clip = (text: string, max: number) => text.length > max ? `…${text.slice(text.length - max + 1)}` : text;
+
+/**
+ * Without a model the summary is the folded turns themselves, keeping only the most recent text.
+ */
+const summarizeByRules = (previous: string, turns: DialogueTurn[]) =>
+  clip([previous, formatTurns(turns.filter(t => t.role === 'OPERATOR'))].filter(Boolean).join('\n'), MAX_SUMMARY_CHARS);
+
+export class DialogueWindow {
+  private turns: DialogueTurn[] = [];
+  private summary = '';
+  private folding: Promise<void> = Promise.resolve();
+  // Bumped on reset so a summary still in flight does not leak into the next conversation
+  private generation = 0;
+
+  push(role: DialogueRole, text: string) {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    this.turns.push({ role, text: clip(trimmed, MAX_TURN_CHARS), at_ms: Date.now() });
+    if (this.turns.length > MAX_TURNS) {
+      const evicted = this.turns.splice(0, Math.max(SUMMARY_BATCH, this.turns.length - MAX_TURNS));
+      // Captured now: a reset before the queued fold runs must still discard these turns
+      const generation = this.generation;
+      this.folding = this.folding.then(() => this.fold(evicted, generation));
+    }
+  }
+
+  reset() {
+    this.turns = [];
+    this.summary = '';
+    this.generation++;
+  }
+
+  /**
+   * The summary and recent turns as prompt text, or null before the first turn.
+   */
+  render(): string | null {
+    if (!this.summary && this.turns.length === 0) return null;
+    const parts: string[] = [];
+    if (this.summary) parts.push(`Сводка более ранней части диалога:\n${this.summary}`);
+    if (this.turns.length) parts.push(`Последние реплики:\n${formatTurns(this.turns)}`);
+    return parts.join('\n\n');
+  }
+
+  private async fold(turns: DialogueTurn[], generation: number) {
+    if (generation !== this.generation) return;
+    const previous = this.summary;
+    const result = await analyzeJson<{ summary: string }>({
+      task: 'dialogue_summary',
+      prompt: SUMMARY_PROMPT,
+      input: `Прежняя сводка: ${previous || '(нет)'}\n\nНовые реплики:\n${formatTurns(turns)}`,
+      schema: { type: 'object', properties: { summary: { type: 'string' } }, required: ['summary'] },
+      fallback: () => ({ summary: summarizeByRules(previous, turns) }),
+    });
+    if (generation !== this.generation) return;
+    this.summary = clip(typeof result?.summary === 'string' && result.summary.trim()
+      ? result.summary.trim()
+      : summarizeByRules(previous, turns), MAX_SUMMARY_CHARS);
+  }
+}
@@ -0,0 +1,142 @@
+import type { Memory } from './memory-store';
+import { idbRequest, idbTransaction, openIdb } from './idb';
+import { cosineSimilarity, getEmbeddingProvider, memoryEmbeddingText } from './embeddings';
+
+// Local vector index of memories. Each entry keeps a snapshot of the record next to its vector,
+// so semantic hits can be returned even when the lexical search on the server misses them.
+
+interface IndexEntry {
+  id: string;
+  provider: string;
+  // Text the vector was computed from; a mismatch means the record changed and must be re-embedded
+  source: string;
+  vector: number[];
+  memory: Memory;
+}
+
+export interface VectorHit {
+  memory: Memory;
+  similarity: number;
+}
+
+const IDB_NAME = 'hk47-memory-embeddings';
+const IDB_VERSION = 1;
+const VECTOR_STORE = 'vectors';
+const EMBED_BATCH_SIZE = 50;
+
+const openDatabase = () => openIdb(IDB_NAME, IDB_VERSION, idb => {
+  if (!idb.objectStoreNames.contains(VECTOR_STORE)) {
+    idb.createObjectStore(VECTOR_STORE, { keyPath: 'id' });
+  }
+});
+
+// In-memory mirror of the store, loaded once
+let cache: Map<string, IndexEntry> | null = null;
+
+const loadCache = async (): Promise<Map<string, IndexEntry>> => {
+  if (cache) return cache;
+  const entries = await idbRequest(openDatabase(), VECTOR_STORE, 'readonly', store => store.getAll() as IDBRequest<IndexEntry[]>);
+  cache = new Map(entries.map(e => [e.id, e]));
+  return cache;
+};
+
+// A record without a partition snapshot predates operator profiles and is re-indexed to pick one up
+const isFresh = (entry: IndexEntry | undefined, memory: Memory, providerId: string) =>
+  !!entry && entry.provider === providerId && entry.source === memoryEmbeddingText(memory)
+    && entry.memory.partition === memory.partition;
+
+const snapshot = (memory: Memory): Memory => ({ ...memory, embedding: undefined });
+
+/**
+ * Embeds records that are new or changed since they were last indexed. Returns how many were embedded.
+ * Records whose text is unchanged only get their snapshot (e.g. metadata) refreshed.
+ */
+export const indexMemories = async (memories: Memory[]): Promise<number> => {
+  const index = await loadCache();
+  const provider = getEmbeddingProvider();
+  const stale = memories.filter(m => m.id !== undefined && !isFresh(index.get(String(m.id)), m, provider.id));
+
+  const outdated: IndexEntry[] = memories
+    .filter(m => m.id !== undefined && !stale.includes(m))
+    .map(m => ({ entry: index.get(String(m.id))!, memory: snapshot(m) }))
+    .filter(({ entry, memory }) => JSON.stringify(entry.memory) !== JSON.stringify(memory))
+    .map(({ entry, memory }) => ({ ...entry, memory }));
+  if (outdated.length > 0) {
+    await idbTransaction(openDatabase(), [VECTOR_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(VECTOR_STORE);
+      outdated.forEach(e => store.put(e));
+    });
+    outdated.forEach(e => index.set(e.id, e));
+  }
+
+  for (let i = 0; i < stale.length; i += EMBED_BATCH_SIZE) {
+    const batch = stale.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await provider.embed(batch.map(memoryEmbeddingText));
+    const entries: IndexEntry[] = batch.map((memory, j) => ({
+      id: String(memory.id),
+      provider: provider.id,
+      source: memoryEmbeddingText(memory),
+      vector: vectors[j],
+      memory: snapshot(memory),
+    }));
+
+    await idbTransaction(openDatabase(), [VECTOR_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(VECTOR_STORE);
+      entries.forEach(e => store.put(e));
+    });
+    entries.forEach(e => index.set(e.id, e));
+  }
+  return stale.length;
+};
+
+export const removeFromIndex = async (id: string | number): Promise<void> => {
+  const index = await loadCache();
+  await idbRequest(openDatabase(), VECTOR_STORE, 'readwrite', store => store.delete(String(id)));
+  index.delete(String(id));
+};
+
+export const getIndexedMemory = async (id: string | number): Promise<Memory | undefined> => {
+  const index = await loadCache();
+  return index.get(String(id))?.memory;
+};
+
+/**
+ * Brings the index in line with the full record set of the given partitions: embeds what is missing
+ * and prunes what no longer exists there. Entries of other partitions (other operator profiles) are kept.
+ */
+export const syncIndex = async (memories: Memory[], partitions: string[]): Promise<{ embedded: number, pruned: number }> => {
+  const index = await loadCache();
+  const embedded = await indexMemories(memories);
+
+  const live = new Set(memories.map(m => String(m.id)));
+  const inScope = (entry: IndexEntry) => entry.memory.partition === undefined || partitions.includes(entry.memory.partition);
+  const orphans = [...index.values()].filter(e => inScope(e) && !live.has(e.id)).map(e => e.id);
+  if (orphans.length > 0) {
+    await idbTransaction(openDatabase(), [VECTOR_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(VECTOR_STORE);
+      orphans.forEach(id => store.delete(id));
+    });
+    orphans.forEach(id => index.delete(id));
+  }
+  return { embedded, pruned: orphans.length };
+};
+
+/**
+ * Nearest records to the query text, above the provider's similarity floor.
+ */
+export const searchIndex = async (text: string, k: number): Promise<VectorHit[]> => {
+  const index = await loadCache();
+  const provider = getEmbeddingProvider();
+  if (index.size === 0 || !text.trim()) return [];
+
+  const [queryVector] = await provider.embed([text]);
+  const hits: VectorHit[] = [];
+  index.forEach(entry => {
+    if (entry.provider !== provider.id) return;
+    const similarity = cosineSimilarity(queryVector, entry.vector);
+    if (similarity >= provider.minSimilarity) {
+      hits.push({ memory: { ...entry.memory, embedding: entry.vector }, similarity });
+    }
+  });
+  return hits.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+};
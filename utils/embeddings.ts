@@ -0,0 +1,110 @@
+import { GoogleGenAI } from "@google/genai";
+
+// --- Embedding Providers ---
+// Vectors from different providers are not comparable, so every stored vector records the provider id.
+
+export interface EmbeddingProvider {
+  // Stable identifier stored next to each vector
+  id: string;
+  // Cosine similarity below which a vector hit is treated as noise
+  minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Multilingual embeddings through the Gemini API ("my dog" and "моя собака" land close together).
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  id: string;
+  minSimilarity = 0.6;
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(model: string = 'text-embedding-004') {
+    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+    this.model = model;
+    this.id = `gemini:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.ai.models.embedContent({
+      model: this.model,
+      contents: texts,
+    });
+    const embeddings = response.embeddings || [];
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Embedding count mismatch: ${embeddings.length}/${texts.length}`);
+    }
+    return embeddings.map(e => e.values || []);
+  }
+}
+
+/**
+ * Fully local fallback: hashed character trigrams. Catches spelling variants and word forms,
+ * not cross-language paraphrases.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  id: string;
+  minSimilarity = 0.3;
+  private dimensions: number;
+
+  constructor(dimensions: number = 256) {
+    this.dimensions = dimensions;
+    this.id = `hash-trigram:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array(this.dimensions).fill(0);
+      const words = text.toLowerCase().replace(/ё/g, 'е').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+      for (const word of words) {
+        const padded = ` ${word} `;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+          vector[this.hash(padded.slice(i, i + 3)) % this.dimensions] += 1;
+        }
+      }
+      return normalize(vector);
+    });
+  }
+
+  // FNV-1a
+  private hash(s: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) {
+      h ^= s.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+  }
+}
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+};
+
+/** Text that represents a memory in vector space. */
+export const memoryEmbeddingText = (m: { content: string, category: string, tags: string[] }) =>
+  `${m.content}\n${m.category}\n${m.tags.join(', ')}`;
+
+let activeProvider: EmbeddingProvider = process.env.API_KEY
+  ? new GeminiEmbeddingProvider()
+  : new HashingEmbeddingProvider();
+
+export const getEmbeddingProvider = () => activeProvider;
+
+export const setEmbeddingProvider = (provider: EmbeddingProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,67 @@
+// Minimal promise wrappers around IndexedDB shared by the local memory stores.
+
+export type UpgradeHandler = (db: IDBDatabase) => void;
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Opens (once per name) a database, running `upgrade` when the version changes.
+ */
+export const openIdb = (name: string, version: number, upgrade: UpgradeHandler): Promise<IDBDatabase> => {
+  const existing = connections.get(name);
+  if (existing) return existing;
+
+  const promise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB unavailable'));
+      return;
+    }
+    const req = indexedDB.open(name, version);
+    req.onupgradeneeded = () => upgrade(req.result);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  connections.set(name, promise);
+
+  // Allow a later retry if opening failed
+  promise.catch(() => connections.delete(name));
+  return promise;
+};
+
+/**
+ * Runs a single request in its own transaction and resolves once the transaction commits.
+ */
+export const idbRequest = async <T>(
+  db: Promise<IDBDatabase>,
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const idb = await db;
+  return new Promise((resolve, reject) => {
+    const tx = idb.transaction(storeName, mode);
+    const req = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Runs several operations across stores in one transaction.
+ */
+export const idbTransaction = async (
+  db: Promise<IDBDatabase>,
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  action: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const idb = await db;
+  return new Promise((resolve, reject) => {
+    const tx = idb.transaction(storeNames, mode);
+    action(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,124 @@
+// Runtime checks for structured model output. Covers the JSON Schema subset the analysis prompts use
+// (type, properties, required, items, enum, default) and repairs what is safe to repair: missing
+// fields with a default, numbers sent as strings, a single value where a list was expected.
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface SchemaValidation<T> {
+  value: T;
+  // Human-readable problems; empty when the value conforms (possibly after coercion)
+  issues: string[];
+}
+
+const typesOf = (schema: JsonSchema): string[] =>
+  schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clone = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const coerce = (type: string, value: unknown): { ok: boolean, value: unknown } => {
+  switch (type) {
+    case 'string':
+      if (typeof value === 'string') return { ok: true, value };
+      if (typeof value === 'number' || typeof value === 'boolean') return { ok: true, value: String(value) };
+      return { ok: false, value };
+    case 'number':
+    case 'integer': {
+      const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+      if (!Number.isFinite(n)) return { ok: false, value };
+      return { ok: true, value: type === 'integer' ? Math.round(n) : n };
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return { ok: true, value };
+      if (value === 'true' || value === 'false') return { ok: true, value: value === 'true' };
+      return { ok: false, value };
+    case 'array':
+      return Array.isArray(value) ? { ok: true, value } : { ok: false, value };
+    case 'object':
+      return isPlainObject(value) ? { ok: true, value } : { ok: false, value };
+    default:
+      return { ok: true, value };
+  }
+};
+
+const validateNode = (schema: JsonSchema, input: unknown, path: string, issues: string[]): unknown => {
+  let value = input === undefined && 'default' in schema ? clone(schema.default) : input;
+  const types = typesOf(schema);
+
+  if (value === null || value === undefined) {
+    if (value === null && types.includes('null')) return null;
+    if (types.length) issues.push(`${path}: ${value === null ? 'null' : 'missing'}, expected ${types.join('|')}`);
+    return value;
+  }
+
+  if (types.length) {
+    const candidates = types.filter(t => t !== 'null');
+    let matched = candidates.find(t => coerce(t, value).ok);
+    // A lone value where a list was expected ("tags": "coffee")
+    if (!matched && candidates.includes('array')) {
+      value = [value];
+      matched = 'array';
+    }
+    if (!matched) {
+      issues.push(`${path}: expected ${types.join('|')}, got ${typeof value}`);
+      return value;
+    }
+    value = coerce(matched, value).value;
+  }
+
+  if (Array.isArray(schema.enum)) {
+    const options = schema.enum as unknown[];
+    const found = options.find(o => o === value || (typeof o === 'string' && typeof value === 'string' && o.toLowerCase() === value.trim().toLowerCase()));
+    if (found === undefined) issues.push(`${path}: ${JSON.stringify(value)} is not one of ${options.join(', ')}`);
+    else value = found;
+  }
+
+  if (Array.isArray(value) && isPlainObject(schema.items)) {
+    const items = schema.items;
+    value = value.map((item, i) => validateNode(items, item, `${path}[${i}]`, issues));
+  }
+
+  if (isPlainObject(value) && isPlainObject(schema.properties)) {
+    const properties = schema.properties as Record<string, JsonSchema>;
+    const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, child] of Object.entries(properties)) {
+      if (result[key] === undefined && !required.includes(key) && !('default' in child)) continue;
+      result[key] = validateNode(child, result[key], `${path}.${key}`, issues);
+    }
+    value = result;
+  }
+
+  return value;
+};
+
+/**
+ * Validates a parsed model response, filling defaults and coercing near-misses on the way.
+ */
+export const validateJson = <T>(schema: JsonSchema, value: unknown): SchemaValidation<T> => {
+  const issues: string[] = [];
+  const result = validateNode(schema, value, '$', issues);
+  return { value: result as T, issues };
+};
+
+/**
+ * The schema as sent to a model: without `default`, which providers either ignore or reject.
+ */
+export const stripDefaults = (schema: JsonSchema): JsonSchema => {
+  const strip = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(strip);
+    if (!isPlainObject(node)) return node;
+    const copy: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(node)) {
+      if (key === 'default') continue;
+      // Property names are data, not keywords: a field called "default" must survive
+      copy[key] = key === 'enum' ? child
+        : key === 'properties' && isPlainObject(child) ? Object.fromEntries(Object.entries(child).map(([name, sub]) => [name, strip(sub)]))
+        : strip(child);
+    }
+    return copy;
+  };
+  return strip(schema) as JsonSchema;
+};
@@ -0,0 +1,159 @@
+import { MemoryCoreState } from '../types';
+import { emitLog, setMemoryState } from './memory-events';
+import { idbRequest, openIdb } from './idb';
+import { Memory, MemoryBackend, MemoryMeta, MemoryPatch, MemoryQuery, MemoryStore, SearchPage, matchesQuery } from './memory-store';
+
+// Serverless backends: everything stays in the browser (IndexedDB) or in the JS heap (tests, demos).
+
+const PAGE_SIZE = 100;
+
+interface StoredMemory extends Memory {
+  id: string;
+  partition: string;
+}
+
+/**
+ * Filtering, sorting and offset cursors shared by the local stores; subclasses only provide persistence.
+ */
+abstract class LocalMemoryStore implements MemoryStore {
+  abstract readonly kind: MemoryBackend;
+  readonly partition: string;
+
+  constructor(partition: string) {
+    this.partition = partition;
+  }
+
+  abstract forPartition(partition: string): MemoryStore;
+
+  protected abstract loadAll(): Promise<StoredMemory[]>;
+  protected abstract load(id: string): Promise<StoredMemory | undefined>;
+  protected abstract save(record: StoredMemory): Promise<void>;
+  protected abstract remove(id: string): Promise<void>;
+
+  async connect(): Promise<void> {
+    setMemoryState(MemoryCoreState.ONLINE);
+  }
+
+  disconnect() {
+    setMemoryState(MemoryCoreState.OFFLINE);
+  }
+
+  async insert(content: string, category: string, tags: string[], createdMs?: number, meta?: MemoryMeta): Promise<string> {
+    const id = `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    await this.save({ id, partition: this.partition, content, category, tags, created_ms: createdMs ?? Date.now(), ...(meta ? { meta } : {}) });
+    emitLog(`Archive confirmed (${this.kind}). ID: ${id}`, 'success');
+    return id;
+  }
+
+  async search(filter: MemoryQuery, cursor: string | null = null): Promise<SearchPage> {
+    const matches = (await this.partitionRecords())
+      .filter(m => matchesQuery(m, filter))
+      .sort((a, b) => b.created_ms - a.created_ms);
+
+    const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+    const limit = filter.limit ?? PAGE_SIZE;
+    const end = offset + limit;
+    return {
+      memories: matches.slice(offset, end).map(toMemory),
+      nextCursor: end < matches.length ? String(end) : null,
+      filtered: true
+    };
+  }
+
+  async update(id: string | number, patch: MemoryPatch): Promise<void> {
+    const record = await this.load(String(id));
+    if (!record || record.partition !== this.partition) throw new Error(`Record ${id} not found`);
+    await this.save({
+      ...record,
+      content: patch.content ?? record.content,
+      category: patch.category ?? record.category,
+      tags: patch.tags ?? record.tags,
+      meta: patch.meta ?? record.meta
+    });
+  }
+
+  async delete(id: string | number): Promise<void> {
+    const record = await this.load(String(id));
+    if (!record || record.partition !== this.partition) throw new Error(`Record ${id} not found`);
+    await this.remove(String(id));
+  }
+
+  async list(): Promise<Memory[]> {
+    return (await this.partitionRecords()).map(toMemory);
+  }
+
+  private async partitionRecords(): Promise<StoredMemory[]> {
+    return (await this.loadAll()).filter(r => r.partition === this.partition);
+  }
+}
+
+// Copies, so callers cannot mutate rows held by InMemoryStore
+const toMemory = (record: StoredMemory): Memory => ({ ...record });
+
+/**
+ * Volatile store; contents vanish on reload.
+ */
+export class InMemoryStore extends LocalMemoryStore {
+  readonly kind = 'memory' as const;
+  private rows: Map<string, StoredMemory>;
+
+  constructor(partition: string, rows: Map<string, StoredMemory> = new Map()) {
+    super(partition);
+    this.rows = rows;
+  }
+
+  forPartition(partition: string): MemoryStore {
+    return partition === this.partition ? this : new InMemoryStore(partition, this.rows);
+  }
+
+  protected async loadAll() { return [...this.rows.values()]; }
+  protected async load(id: string) { return this.rows.get(id); }
+  protected async save(record: StoredMemory) { this.rows.set(record.id, { ...record }); }
+  protected async remove(id: string) { this.rows.delete(id); }
+}
+
+const IDB_NAME = 'hk47-memory-store';
+const IDB_VERSION = 1;
+const MEMORY_STORE = 'memories';
+
+/**
+ * Persistent browser-only store.
+ */
+export class IndexedDBMemoryStore extends LocalMemoryStore {
+  readonly kind = 'indexeddb' as const;
+
+  forPartition(partition: string): MemoryStore {
+    return partition === this.partition ? this : new IndexedDBMemoryStore(partition);
+  }
+
+  private db() {
+    return openIdb(IDB_NAME, IDB_VERSION, idb => {
+      if (!idb.objectStoreNames.contains(MEMORY_STORE)) {
+        idb.createObjectStore(MEMORY_STORE, { keyPath: 'id' });
+      }
+    });
+  }
+
+  async connect(): Promise<void> {
+    try {
+      await this.db();
+    } catch (e) {
+      setMemoryState(MemoryCoreState.OFFLINE);
+      throw e;
+    }
+    return super.connect();
+  }
+
+  protected loadAll() {
+    return idbRequest(this.db(), MEMORY_STORE, 'readonly', store => store.getAll() as IDBRequest<StoredMemory[]>);
+  }
+  protected load(id: string) {
+    return idbRequest(this.db(), MEMORY_STORE, 'readonly', store => store.get(id) as IDBRequest<StoredMemory | undefined>);
+  }
+  protected async save(record: StoredMemory) {
+    await idbRequest(this.db(), MEMORY_STORE, 'readwrite', store => store.put(record));
+  }
+  protected async remove(id: string) {
+    await idbRequest(this.db(), MEMORY_STORE, 'readwrite', store => store.delete(id));
+  }
+}
@@ -0,0 +1,122 @@
+// Credentials and session for the Memory Core socket.
+// Passwords are only held in memory (from the login form, never from the build: anything inlined into
+// the bundle ships to every visitor); the server answers auth with a short-lived bearer token, which is
+// what every reconnect presents until it expires.
+
+export interface PasswordCredentials {
+  login: string;
+  password: string;
+}
+
+export type MemoryPermission = 'read' | 'write' | 'delete';
+
+/**
+ * What the server granted in `auth_ok`. Servers that send no scope grant full access.
+ */
+export interface MemoryScope {
+  permissions: MemoryPermission[] | null;
+  partitions: string[] | null;
+}
+
+interface BearerToken {
+  token: string;
+  expires_ms: number | null;
+}
+
+export class MemoryAuthError extends Error {}
+
+/** Logged in, but the granted scope does not cover the operation. */
+export class MemoryScopeError extends MemoryAuthError {}
+
+const TOKEN_STORAGE_KEY = 'hk47.memoryToken';
+// Tokens this close to expiry are refreshed rather than presented
+const TOKEN_EXPIRY_MARGIN_MS = 30000;
+
+let passwordCredentials: PasswordCredentials | null = null;
+
+const loadToken = (): BearerToken | null => {
+  try {
+    const raw = typeof sessionStorage !== 'undefined' ? sessionStorage.getItem(TOKEN_STORAGE_KEY) : null;
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+let bearer: BearerToken | null = loadToken();
+let scope: MemoryScope = { permissions: null, partitions: null };
+
+const storeToken = (token: BearerToken | null) => {
+  bearer = token;
+  if (typeof sessionStorage === 'undefined') return;
+  if (token) sessionStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(token));
+  else sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+};
+
+const tokenIsUsable = (token: BearerToken | null): token is BearerToken =>
+  !!token && (token.expires_ms === null || token.expires_ms - TOKEN_EXPIRY_MARGIN_MS > Date.now());
+
+export const hasMemoryCredentials = () => !!passwordCredentials || tokenIsUsable(bearer);
+
+export const hasPasswordCredentials = () => !!passwordCredentials;
+
+/**
+ * Credentials entered through the login form. They replace any env credentials and stale token.
+ */
+export const setPasswordCredentials = (credentials: PasswordCredentials | null) => {
+  passwordCredentials = credentials;
+  storeToken(null);
+};
+
+/**
+ * Builds the `auth` message: a valid bearer token if we have one, otherwise login/password.
+ * Returns which kind was used so a rejected token can fall back to the password.
+ */
+export const buildAuthMessage = (): { message: Record<string, string>, kind: 'token' | 'password' } => {
+  if (tokenIsUsable(bearer)) {
+    return { message: { type: 'auth', token: bearer.token }, kind: 'token' };
+  }
+  if (passwordCredentials) {
+    return { message: { type: 'auth', login: passwordCredentials.login, password: passwordCredentials.password }, kind: 'password' };
+  }
+  throw new MemoryAuthError('No Memory Core credentials configured');
+};
+
+/**
+ * Stores the token and scope from `auth_ok` / `refreshed`.
+ */
+export const applyAuthResponse = (msg: any) => {
+  if (typeof msg.token === 'string') {
+    storeToken({ token: msg.token, expires_ms: typeof msg.expires_ms === 'number' ? msg.expires_ms : null });
+  }
+  if (msg.type === 'auth_ok') {
+    scope = {
+      permissions: Array.isArray(msg.permissions) ? msg.permissions : null,
+      partitions: Array.isArray(msg.partitions) ? msg.partitions : null,
+    };
+  }
+};
+
+export const invalidateToken = () => storeToken(null);
+
+/**
+ * Delay until the current token should be refreshed, or null if it does not expire.
+ */
+export const tokenRefreshDelay = (): number | null => {
+  if (!bearer || bearer.expires_ms === null) return null;
+  return Math.max(0, bearer.expires_ms - TOKEN_EXPIRY_MARGIN_MS - Date.now());
+};
+
+export const getMemoryScope = () => scope;
+
+/**
+ * Throws if the granted scope does not cover the operation.
+ */
+export const assertPermitted = (permission: MemoryPermission, partition: string) => {
+  if (scope.permissions && !scope.permissions.includes(permission)) {
+    throw new MemoryScopeError(`Permission "${permission}" not granted`);
+  }
+  if (scope.partitions && !scope.partitions.includes(partition)) {
+    throw new MemoryScopeError(`Partition "${partition}" outside granted scope`);
+  }
+};
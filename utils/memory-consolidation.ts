@@ -0,0 +1,183 @@
+import { MemoryCoreState } from '../types';
+import { emitLog, subscribeToMemoryState } from './memory-events';
+import { Memory, MemoryMeta, MemoryRevision, isExpired } from './memory-store';
+import { deleteMemory, getMemoryStore, updateMemory } from './memory-db';
+import { tokenize } from './memory-ranking';
+
+// Consolidation: repeated statements ("I like coffee" saved ten times) are folded into one canonical
+// record. The newest phrasing wins; the others are kept in meta.history and removed from the archive.
+// Only records filed under the same category are duplicates, so merging never moves a record to another category.
+// Expired records are purged in the same pass. Only the active operator's partition is consolidated,
+// never the shared one.
+
+export interface ConsolidationReport {
+  scanned: number;
+  expired: number;
+  clusters: number;
+  removed: number;
+  failed: number;
+}
+
+// Weighted Jaccard over content stems and tags; pairs at or above the threshold are duplicates
+const CONTENT_WEIGHT = 0.8;
+const TAG_WEIGHT = 0.2;
+const DUPLICATE_THRESHOLD = 0.75;
+
+const CONSOLIDATION_INTERVAL_MS = 30 * 60 * 1000;
+
+// Stop-word removal drops "не"/"not", so a negated statement would otherwise look like its opposite
+const NEGATION = /(^|[^\p{L}])(не|нет|ни|никогда|not|no|never|don't|doesn't|didn't|isn't)(?=$|[^\p{L}])/iu;
+
+interface Fingerprint {
+  memory: Memory;
+  category: string;
+  stems: Set<string>;
+  tags: Set<string>;
+  negated: boolean;
+}
+
+const fingerprint = (memory: Memory): Fingerprint => ({
+  memory,
+  category: memory.category.trim().toLowerCase(),
+  stems: new Set(tokenize(memory.content)),
+  tags: new Set(memory.tags.map(t => t.toLowerCase())),
+  negated: NEGATION.test(memory.content),
+});
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(x => { if (b.has(x)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+const similarity = (a: Fingerprint, b: Fingerprint): number => {
+  if (a.category !== b.category || a.negated !== b.negated || a.stems.size === 0 || b.stems.size === 0) return 0;
+  return CONTENT_WEIGHT * jaccard(a.stems, b.stems) + TAG_WEIGHT * jaccard(a.tags, b.tags);
+};
+
+/**
+ * Greedy clustering, newest first: a record joins the first cluster whose canonical (newest) record
+ * it duplicates. Comparing against the canonical only keeps loosely related records from chaining.
+ */
+const clusterDuplicates = (memories: Memory[]): Memory[][] => {
+  const clusters: { head: Fingerprint, members: Memory[] }[] = [];
+  [...memories]
+    .filter(m => m.id !== undefined)
+    .sort((a, b) => b.created_ms - a.created_ms)
+    .map(fingerprint)
+    .forEach(fp => {
+      const cluster = clusters.find(c => similarity(c.head, fp) >= DUPLICATE_THRESHOLD);
+      if (cluster) cluster.members.push(fp.memory);
+      else clusters.push({ head: fp, members: [fp.memory] });
+    });
+  return clusters.map(c => c.members).filter(members => members.length > 1);
+};
+
+/**
+ * The merged record keeps the strongest claim of any member: pinned if any was, the highest importance,
+ * the latest expiry (none if any member was permanent) and the combined access stats.
+ */
+const mergeMeta = (members: Memory[], history: MemoryRevision[]): MemoryMeta => {
+  const metas = members.map(m => m.meta || {});
+  const meta: MemoryMeta = { ...metas[0], history };
+  if (metas.some(m => m.pinned)) meta.pinned = true;
+  const importances = metas.map(m => m.importance).filter((i): i is number => i !== undefined);
+  if (importances.length) meta.importance = Math.max(...importances);
+  if (metas.some(m => m.expires_ms === undefined)) delete meta.expires_ms;
+  else meta.expires_ms = Math.max(...metas.map(m => m.expires_ms!));
+  const accessed = metas.map(m => m.last_accessed_ms).filter((t): t is number => t !== undefined);
+  if (accessed.length) meta.last_accessed_ms = Math.max(...accessed);
+  meta.access_count = metas.reduce((sum, m) => sum + (m.access_count || 0), 0);
+  return meta;
+};
+
+const toRevision = (m: Memory, mergedMs: number): MemoryRevision =>
+  ({ id: m.id, content: m.content, category: m.category, tags: m.tags, created_ms: m.created_ms, merged_ms: mergedMs });
+
+/**
+ * Folds one cluster into its canonical record. Duplicates are deleted only after the canonical
+ * record has been rewritten, so a failure never loses data.
+ */
+const mergeCluster = async ([canonical, ...duplicates]: Memory[]): Promise<{ removed: number, failed: number }> => {
+  const now = Date.now();
+  const history = [
+    ...(canonical.meta?.history || []),
+    ...duplicates.flatMap(d => [...(d.meta?.history || []), toRevision(d, now)]),
+  ].sort((a, b) => a.created_ms - b.created_ms);
+
+  const tags = [...canonical.tags];
+  duplicates.flatMap(d => d.tags).forEach(t => {
+    if (!tags.some(k => k.toLowerCase() === t.toLowerCase())) tags.push(t);
+  });
+
+  if (!await updateMemory(canonical.id!, { tags, meta: mergeMeta([canonical, ...duplicates], history) }, canonical.partition)) {
+    return { removed: 0, failed: duplicates.length };
+  }
+  let removed = 0;
+  for (const d of duplicates) {
+    if (await deleteMemory(d.id!, d.partition)) removed++;
+  }
+  return { removed, failed: duplicates.length - removed };
+};
+
+let isConsolidating = false;
+
+/**
+ * Runs one consolidation pass over the active operator's partition and logs a summary.
+ * Returns null if a pass is already running.
+ */
+export const consolidateMemories = async (): Promise<ConsolidationReport | null> => {
+  if (isConsolidating) return null;
+  isConsolidating = true;
+  try {
+    const memories = await getMemoryStore().list();
+    const now = Date.now();
+    const expired = memories.filter(m => m.id !== undefined && isExpired(m, now));
+    const clusters = clusterDuplicates(memories.filter(m => !expired.includes(m)));
+    const report: ConsolidationReport = { scanned: memories.length, expired: 0, clusters: clusters.length, removed: 0, failed: 0 };
+
+    for (const m of expired) {
+      if (await deleteMemory(m.id!, m.partition)) report.expired++;
+      else report.failed++;
+    }
+
+    for (const cluster of clusters) {
+      const { removed, failed } = await mergeCluster(cluster);
+      report.removed += removed;
+      report.failed += failed;
+    }
+
+    emitLog(
+      `Consolidation: ${report.scanned} scanned, ${report.expired} expired purged, ${report.clusters} clusters merged, ${report.removed} duplicates removed${report.failed ? `, ${report.failed} failed` : ''}.`,
+      report.failed ? 'error' : report.removed || report.expired ? 'success' : 'info'
+    );
+    return report;
+  } catch (error: any) {
+    emitLog(`Consolidation aborted: ${error.message}`, 'error');
+    return null;
+  } finally {
+    isConsolidating = false;
+  }
+};
+
+/**
+ * Consolidates periodically while the memory core is online. Returns a function that stops the schedule.
+ */
+export const startConsolidationSchedule = (intervalMs: number = CONSOLIDATION_INTERVAL_MS): (() => void) => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const stopTimer = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const unsubscribe = subscribeToMemoryState(state => {
+    if (state !== MemoryCoreState.ONLINE) return stopTimer();
+    if (!timer) timer = setInterval(() => { consolidateMemories(); }, intervalMs);
+  });
+
+  return () => {
+    unsubscribe();
+    stopTimer();
+  };
+};
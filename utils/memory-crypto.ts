@@ -0,0 +1,196 @@
+import type { MemoryMeta } from './memory-store';
+
+// End-to-end encryption for the remote Memory Core. Keys are derived from a passphrase with PBKDF2
+// and never leave the browser; the server only sees ciphertext.
+//
+//   data  -> "enc:v2:<iv>:<ciphertext>"                     (AES-256-GCM)
+//   tags  -> ["h:<hmac>", "e:enc:v2:...", ...] per tag      (keyed hash for search + sealed original)
+//   meta  -> { sealed: "enc:v2:..." }
+//
+// Each partition has its own random salt, kept by the Memory Core in the partition (see MemoryDBClient), so every
+// device with the passphrase derives the same partition keys while no two partitions or installs share them.
+//
+// Each field is sealed independently, so partial updates keep working. Without tag hashing tags stay
+// in plaintext and server-side tag search behaves as before.
+
+export interface EncryptionState {
+  enabled: boolean;
+  hashTags: boolean;
+}
+
+export class MemoryDecryptionError extends Error {}
+
+export interface MemoryKeys {
+  aes: CryptoKey;
+  hmac: CryptoKey;
+  hashTags: boolean;
+}
+
+interface Passphrase {
+  material: CryptoKey;
+  hashTags: boolean;
+}
+
+export const KDF_SALT_BYTES = 16;
+const KDF_ITERATIONS = 310000;
+const IV_BYTES = 12;
+const TAG_HASH_BYTES = 16;
+
+const SEALED_PREFIX = 'enc:';
+const SEALED_V2 = 'enc:v2:';
+const TAG_HASH_PREFIX = 'h:';
+const SEALED_TAG_PREFIX = 'e:';
+// Bytes per String.fromCharCode call; spreading a whole ciphertext overflows the argument limit
+const BASE64_CHUNK = 0x8000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+};
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+const toHex = (bytes: Uint8Array) => [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const importPassphrase = async (passphrase: string, hashTags: boolean): Promise<Passphrase> => ({
+  material: await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']),
+  hashTags,
+});
+
+const deriveKeys = async ({ material, hashTags }: Passphrase, salt: Uint8Array): Promise<MemoryKeys> => {
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations: KDF_ITERATIONS, hash: 'SHA-256' },
+    material,
+    512
+  ));
+  const [aes, hmac] = await Promise.all([
+    crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+    crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+  ]);
+  return { aes, hmac, hashTags };
+};
+
+// --- State ---
+type StateCallback = (state: EncryptionState) => void;
+const listeners: StateCallback[] = [];
+let state: EncryptionState = { enabled: false, hashTags: false };
+// Operations wait for a passphrase import in progress, so nothing is written in plaintext meanwhile
+let passphrasePromise: Promise<Passphrase | null> = Promise.resolve(null);
+// Derived per partition on first use; dropped when the passphrase changes
+let partitionKeys = new Map<string, Promise<MemoryKeys>>();
+
+export const subscribeToEncryptionState = (callback: StateCallback) => {
+  listeners.push(callback);
+  callback(state);
+  return () => {
+    const index = listeners.indexOf(callback);
+    if (index > -1) listeners.splice(index, 1);
+  };
+};
+
+export const getEncryptionState = () => state;
+
+/**
+ * Enables encryption with keys derived from the passphrase, or disables it with null.
+ * The passphrase itself is not kept, only the non-extractable key material imported from it.
+ */
+export const setEncryptionPassphrase = async (passphrase: string | null, options: { hashTags?: boolean } = {}): Promise<void> => {
+  const hashTags = options.hashTags ?? process.env.HK_MEMORY_HASH_TAGS !== 'false';
+  passphrasePromise = passphrase ? importPassphrase(passphrase, hashTags) : Promise.resolve(null);
+  partitionKeys = new Map();
+  const imported = await passphrasePromise;
+  state = { enabled: !!imported, hashTags: !!imported?.hashTags };
+  listeners.forEach(cb => cb(state));
+};
+
+/**
+ * Keys of one partition, or null while encryption is off. `loadSalt` fetches (or creates) the
+ * partition's salt; it is only called on the first use after each passphrase change.
+ */
+export const keysForPartition = async (partition: string, loadSalt: () => Promise<Uint8Array>): Promise<MemoryKeys | null> => {
+  const imported = await passphrasePromise;
+  if (!imported) return null;
+  const cache = partitionKeys;
+  let keys = cache.get(partition);
+  if (!keys) {
+    keys = loadSalt().then(salt => deriveKeys(imported, salt));
+    keys.catch(() => cache.delete(partition));
+    cache.set(partition, keys);
+  }
+  return keys;
+};
+
+// --- Fields ---
+
+const seal = async (keys: MemoryKeys, text: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, keys.aes, encoder.encode(text)));
+  return `${SEALED_V2}${toBase64(iv)}:${toBase64(ciphertext)}`;
+};
+
+const open = async (keys: MemoryKeys | null, sealed: string): Promise<string> => {
+  if (!keys) throw new MemoryDecryptionError('Record is encrypted; passphrase required');
+  if (!sealed.startsWith(SEALED_V2)) throw new MemoryDecryptionError('Record uses an unknown encryption format');
+  const [iv, ciphertext] = sealed.slice(SEALED_V2.length).split(':');
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, keys.aes, fromBase64(ciphertext));
+    return decoder.decode(plain);
+  } catch {
+    throw new MemoryDecryptionError('Record was encrypted with a different passphrase');
+  }
+};
+
+const hashTag = async (keys: MemoryKeys, tag: string): Promise<string> => {
+  const mac = await crypto.subtle.sign('HMAC', keys.hmac, encoder.encode(tag.trim().toLowerCase()));
+  return TAG_HASH_PREFIX + toHex(new Uint8Array(mac).slice(0, TAG_HASH_BYTES));
+};
+
+export const sealText = async (keys: MemoryKeys | null, text: string): Promise<string> =>
+  keys ? seal(keys, text) : text;
+
+/**
+ * Plaintext passes through unchanged (records written before encryption was enabled).
+ */
+export const openText = async (keys: MemoryKeys | null, value: string): Promise<string> =>
+  value.startsWith(SEALED_PREFIX) ? open(keys, value) : value;
+
+export const sealTags = async (keys: MemoryKeys | null, tags: string[]): Promise<string[]> => {
+  if (!keys?.hashTags) return tags;
+  const sealed = await Promise.all(tags.map(async tag => [await hashTag(keys, tag), SEALED_TAG_PREFIX + await seal(keys, tag)]));
+  return sealed.flat();
+};
+
+export const openTags = async (keys: MemoryKeys | null, stored: string[]): Promise<string[]> => {
+  const tags: string[] = [];
+  for (const tag of stored) {
+    if (tag.startsWith(TAG_HASH_PREFIX)) continue;
+    tags.push(tag.startsWith(SEALED_TAG_PREFIX) ? await open(keys, tag.slice(SEALED_TAG_PREFIX.length)) : tag);
+  }
+  return tags;
+};
+
+/**
+ * What to send as the `tags` search filter: keyed hashes when tags are stored hashed.
+ * Records tagged in plaintext before hashing was enabled are not matched server-side.
+ */
+export const tagSearchTerms = async (keys: MemoryKeys | null, tags: string[]): Promise<string[]> =>
+  keys?.hashTags ? Promise.all(tags.map(tag => hashTag(keys, tag))) : tags;
+
+export const sealMeta = async (keys: MemoryKeys | null, meta: MemoryMeta | undefined): Promise<Record<string, unknown> | undefined> => {
+  if (!meta || !keys) return meta as Record<string, unknown> | undefined;
+  return { sealed: await seal(keys, JSON.stringify(meta)) };
+};
+
+export const openMeta = async (keys: MemoryKeys | null, raw: any): Promise<MemoryMeta | undefined> => {
+  if (!raw || typeof raw.sealed !== 'string') return raw;
+  return JSON.parse(await open(keys, raw.sealed));
+};
+
+/**
+ * Whether the server can evaluate a free-text query: not over ciphertext.
+ */
+export const canSearchContent = (keys: MemoryKeys | null): boolean => !keys;
@@ -1,53 +1,242 @@
 
-export interface Memory {
-  id?: string | number;
-  content: string;
-  category: string;
-  tags: string[];
-  created_ms: number; 
-}
+import { MemoryCoreState } from '../types';
+import { emitLog, getMemoryState, setMemoryState, subscribeToMemoryState } from './memory-events';
+import { DEFAULT_IMPORTANCE, MAX_SEARCH_PAGES, Memory, MemoryBackend, MemoryMeta, MemoryPatch, MemoryQuery, MemoryRejectedError, MemoryStore, SearchPage, isExpired, matchesQuery, searchAllPages } from './memory-store';
+import { InMemoryStore, IndexedDBMemoryStore } from './local-memory-stores';
+import { MemoryAuthError, MemoryPermission, MemoryScopeError, applyAuthResponse, assertPermitted, buildAuthMessage, hasMemoryCredentials, invalidateToken, setPasswordCredentials, tokenRefreshDelay } from './memory-auth';
+import { rankMemories, hybridRank, boostByPriority, confidenceLabel, tokenize, ScoredMemory } from './memory-ranking';
+import { indexMemories, removeFromIndex, getIndexedMemory, syncIndex, searchIndex } from './embedding-index';
+import { addToOutbox, completeOutboxEntry, createTempId, getPendingCount, listOutbox, moveToDeadLetter, resolveMemoryId } from './memory-outbox';
+import { KDF_SALT_BYTES, MemoryDecryptionError, MemoryKeys, setEncryptionPassphrase, canSearchContent, fromBase64, keysForPartition, openMeta, openTags, openText, sealMeta, sealTags, sealText, tagSearchTerms, toBase64 } from './memory-crypto';
+import { SHARED_PARTITION, getOperatorProfile, readablePartitions, subscribeToOperatorProfile } from './operator-profiles';
+
+export { DEFAULT_IMPORTANCE, MemoryRejectedError, isExpired } from './memory-store';
+export type { Memory, MemoryMeta, MemoryRevision, MemoryQuery, MemoryPatch, SearchPage, MemoryBackend, MemoryStore } from './memory-store';
+export { subscribeToMemoryLogs, subscribeToMemoryState } from './memory-events';
 
 // Configuration
+// Credentials come from the login form at runtime, see memory-auth.ts
 const DB_URL = process.env.HK_DB_URL || 'wss://some-network.ru/ws';
-const DB_USER = process.env.HK_DB_USER || 'admin';
-const DB_PASS = process.env.HK_DB_PASS || 'qehjdfh746@yrh1';
-const PARTITION = 'hk47';
-
-// --- Logging System ---
-type LogCallback = (message: string, type: 'info' | 'error' | 'success') => void;
-const listeners: LogCallback[] = [];
-
-export const subscribeToMemoryLogs = (callback: LogCallback) => {
-  listeners.push(callback);
-  return () => {
-    const index = listeners.indexOf(callback);
-    if (index > -1) listeners.splice(index, 1);
-  };
-};
+const BACKEND_STORAGE_KEY = 'hk47.memoryBackend';
 
-const emitLog = (message: string, type: 'info' | 'error' | 'success' = 'info') => {
-  listeners.forEach(cb => cb(message, type));
-  if (type === 'error') console.error(`[MemoryDB] ${message}`);
-  else console.log(`[MemoryDB] ${message}`);
-};
+const REQUEST_TIMEOUT_MS = 10000;
+const SEARCH_PAGE_SIZE = 100;
+
+// Each partition's encryption salt is a reserved plaintext record in the partition itself, so a
+// partition-scoped login can always reach it; it is never returned as a memory
+const SALT_CATEGORY = 'encryption-salt';
+
+// Reconnect supervisor
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Heartbeat: a request left without any inbound message for the timeout means a half-open socket.
+// Servers that echo request_id also get a ping every interval; legacy servers have no ping.
+const HEARTBEAT_INTERVAL_MS = 15000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
 
-class MemoryDBClient {
+interface PendingRequest {
+  resolve: (msg: any) => void;
+  reject: (reason: any) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * The authenticated hk-db socket with its reconnect supervisor. One link is shared by the
+ * MemoryDBClient views of every partition.
+ */
+class MemoryCoreLink {
   private ws: WebSocket | null = null;
-  private queue: Array<() => Promise<any>> = [];
-  private isProcessing = false;
   private isAuthenticated = false;
-  
-  // Handlers for the current active request
-  private pendingResolver: ((val: any) => void) | null = null;
-  private pendingRejecter: ((reason: any) => void) | null = null;
+  private connectPromise: Promise<void> | null = null;
+
+  // In-flight operations keyed by request_id
+  private pending = new Map<string, PendingRequest>();
+  private requestCounter = 0;
+  // Whether the server echoes request_id, learned from auth_ok; legacy servers get one request at a time
+  private correlated = false;
+  private serialQueue: Promise<unknown> = Promise.resolve();
+
+  // Supervisor state
+  private keepAlive = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // When the oldest request still waiting for any inbound message was sent (0 = none)
+  private awaitingReplySince = 0;
 
   constructor() {}
 
+  /**
+   * Opens (or reuses) the authenticated socket and keeps it supervised:
+   * unexpected drops are retried with exponential backoff until disconnect() is called.
+   */
   async connect(): Promise<void> {
-    emitLog("Try connect to Memory Core...", 'info');
+    this.keepAlive = true;
     if (this.ws && this.ws.readyState === WebSocket.OPEN && this.isAuthenticated) {
       return;
     }
+    // Concurrent callers share a single handshake
+    if (this.connectPromise) return this.connectPromise;
+
+    if (!hasMemoryCredentials()) {
+      setMemoryState(MemoryCoreState.UNAUTHORIZED);
+      throw new MemoryAuthError('No Memory Core credentials configured');
+    }
+
+    this.clearReconnectTimer();
+    setMemoryState(this.reconnectAttempt > 0 ? MemoryCoreState.RECONNECTING : MemoryCoreState.CONNECTING);
+
+    this.connectPromise = this.openSocket()
+      .then(() => {
+        this.reconnectAttempt = 0;
+        setMemoryState(MemoryCoreState.ONLINE);
+        this.startHeartbeat();
+        this.scheduleTokenRefresh();
+      })
+      .catch((e) => {
+        // Rejected credentials are discarded; retry only if something else is left to present
+        if (e instanceof MemoryAuthError && !hasMemoryCredentials()) {
+          setMemoryState(MemoryCoreState.UNAUTHORIZED);
+          this.reconnectAttempt = 0;
+          throw e;
+        }
+        setMemoryState(MemoryCoreState.OFFLINE);
+        this.scheduleReconnect();
+        throw e;
+      })
+      .finally(() => {
+        this.connectPromise = null;
+      });
+    return this.connectPromise;
+  }
+
+  /**
+   * Closes the socket and stops the reconnect supervisor.
+   */
+  disconnect() {
+    this.keepAlive = false;
+    this.clearReconnectTimer();
+    this.clearTokenRefresh();
+    this.stopHeartbeat();
+    if (this.ws) {
+        const ws = this.ws;
+        this.ws = null;
+        try { ws.close(); } catch(e) {}
+    }
+    this.isAuthenticated = false;
+    this.reconnectAttempt = 0;
+    this.rejectAllPending(new Error("HK-DB Connection Closed"));
+    setMemoryState(MemoryCoreState.OFFLINE);
+  }
+
+  private scheduleReconnect() {
+    if (!this.keepAlive || this.reconnectTimer) return;
+
+    // Exponential backoff with full jitter
+    const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.reconnectAttempt);
+    const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    this.reconnectAttempt++;
+
+    emitLog(`Memory Core uplink lost. Retry #${this.reconnectAttempt} in ${(delay / 1000).toFixed(1)}s.`, 'info');
+    setMemoryState(MemoryCoreState.RECONNECTING);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => {
+        // Failure already logged; connect() schedules the next attempt
+      });
+    }, delay);
+  }
+
+  /**
+   * Swaps the bearer token for a fresh one shortly before it expires.
+   */
+  private scheduleTokenRefresh() {
+    this.clearTokenRefresh();
+    const delay = tokenRefreshDelay();
+    if (delay === null) return;
+
+    this.tokenRefreshTimer = setTimeout(async () => {
+      this.tokenRefreshTimer = null;
+      try {
+        const msg = await this.request({ type: 'refresh' });
+        if (msg.type !== 'refreshed') throw new Error('Unexpected response: ' + msg.type);
+        applyAuthResponse(msg);
+        this.scheduleTokenRefresh();
+      } catch (e: any) {
+        // The next reconnect falls back to the password, if we have one
+        emitLog(`Token refresh failed: ${e.message}`, 'error');
+      }
+    }, delay);
+  }
+
+  private clearTokenRefresh() {
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.awaitingReplySince = 0;
+
+    this.heartbeatTimer = setInterval(() => {
+      // Any inbound message proves the link is alive; a request met by silence past the timeout does not
+      if (this.awaitingReplySince && Date.now() - this.awaitingReplySince > HEARTBEAT_TIMEOUT_MS) {
+        emitLog("Memory Core heartbeat lost. Dropping stale uplink.", 'error');
+        this.dropSocket();
+        return;
+      }
+      // On a legacy link an unknown message would take a slot in the request queue and get an error back
+      if (!this.correlated) return;
+      this.request({ type: 'ping' }, HEARTBEAT_TIMEOUT_MS, false).catch(() => {
+        // Liveness is judged by awaitingReplySince, not by the pong itself
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Tears down the current socket without waiting for the close handshake and hands over to the supervisor.
+   */
+  private dropSocket() {
+    const ws = this.ws;
+    if (!ws) return;
+    this.ws = null;
+    ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+    try { ws.close(); } catch(e) {}
+
+    const wasAuthenticated = this.isAuthenticated;
+    this.isAuthenticated = false;
+    this.stopHeartbeat();
+    this.clearTokenRefresh();
+    this.rejectAllPending(new Error("HK-DB Connection Closed"));
+
+    if (wasAuthenticated) {
+        emitLog("Memory Core uplink terminated.", 'info');
+        setMemoryState(MemoryCoreState.OFFLINE);
+        this.scheduleReconnect();
+    }
+  }
+
+  private openSocket(): Promise<void> {
+    emitLog("Try connect to Memory Core...", 'info');
 
     // Force clean state if retrying
     if (this.ws) {
@@ -59,248 +248,809 @@ class MemoryDBClient {
     emitLog("Initiating subspace uplink to Memory Core...", 'info');
 
     return new Promise((resolve, reject) => {
+      let ws: WebSocket;
       try {
-        this.ws = new WebSocket(DB_URL);
+        ws = new WebSocket(DB_URL);
+        this.ws = ws;
       } catch (e: any) {
         const err = `Secure Protocol Error: ${e.message}`;
         emitLog(err, 'error');
         return reject(e);
       }
 
-      this.ws.onopen = () => {
+      let authKind: 'token' | 'password' = 'password';
+
+      ws.onopen = () => {
         emitLog("Uplink established. Transmitting auth codes...", 'info');
-        // Protocol Step 2: Send Auth
-        this.sendRaw({
-            type: 'auth',
-            login: DB_USER,
-            password: DB_PASS
-        });
+        // Protocol Step 2: Send Auth (bearer token if still valid, otherwise login/password)
+        try {
+            const auth = buildAuthMessage();
+            authKind = auth.kind;
+            this.sendRaw({ ...auth.message, request_id: `auth-${++this.requestCounter}` });
+        } catch (e) {
+            reject(e);
+            ws.close();
+        }
       };
 
-      this.ws.onmessage = (event) => {
+      ws.onmessage = (event) => {
+        this.awaitingReplySince = 0;
         try {
             const msg = JSON.parse(event.data);
             
             // Auth Handshake
             if (msg.type === 'auth_ok') {
                 this.isAuthenticated = true;
+                this.correlated = msg.request_id !== undefined;
+                if (!this.correlated) emitLog("Memory Core does not echo request_id: requests will be serialized.", 'info');
+                applyAuthResponse(msg);
                 emitLog("Memory Core access: GRANTED.", 'success');
                 resolve();
                 return;
             }
             if (msg.type === 'error' && !this.isAuthenticated) {
-                emitLog(`Auth Failure: ${msg.message}`, 'error');
-                reject(new Error(`HK-DB Auth Failure: ${msg.message}`));
+                emitLog(`Auth Failure (${authKind}): ${msg.message}`, 'error');
+                if (authKind === 'token') invalidateToken();
+                else setPasswordCredentials(null);
+                reject(new MemoryAuthError(`HK-DB Auth Failure: ${msg.message}`));
                 return;
             }
 
             // Operation Responses
-            if (this.pendingResolver) {
-                if (msg.type === 'error') {
-                     emitLog(`Operation Error: ${msg.message}`, 'error');
-                     if (this.pendingRejecter) this.pendingRejecter(new Error(msg.message));
-                } else {
-                     this.pendingResolver(msg);
-                }
-                // Cleanup
-                this.pendingResolver = null;
-                this.pendingRejecter = null;
-            }
+            this.routeResponse(msg);
         } catch (e) {
             console.error("HK-DB Parse Error", e);
         }
       };
 
-      this.ws.onerror = (e) => {
+      ws.onerror = (e) => {
         console.error("HK-DB Socket Error", e);
         emitLog("Memory Core socket malfunction.", 'error');
         if (!this.isAuthenticated) {
             reject(new Error("WebSocket Connection Failed"));
-        } else if (this.pendingRejecter) {
-            this.pendingRejecter(new Error("WebSocket Connection Error during request"));
-            this.pendingResolver = null;
-            this.pendingRejecter = null;
         }
       };
 
-      this.ws.onclose = () => {
-        if (this.isAuthenticated) {
-            emitLog("Memory Core uplink terminated.", 'info');
-        }
-        
+      ws.onclose = () => {
+        // A newer socket may already have replaced this one
+        if (this.ws !== ws) return;
+
         if (!this.isAuthenticated) {
+            this.ws = null;
             reject(new Error("HK-DB Connection Closed before Auth"));
+            return;
         }
-
-        this.isAuthenticated = false;
-        
-        if (this.pendingRejecter) {
-            this.pendingRejecter(new Error("HK-DB Connection Closed"));
-            this.pendingResolver = null;
-            this.pendingRejecter = null;
-        }
+        this.dropSocket();
       };
     });
   }
 
   private sendRaw(data: any) {
-     // if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-          this.ws.send(JSON.stringify(data));
-      //}
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+          throw new Error("HK-DB socket is not open");
+      }
+      this.ws.send(JSON.stringify(data));
+  }
+
+  /**
+   * Matches a server message to its pending request by request_id.
+   * Servers that do not echo request_id never have more than one request in flight (see request()),
+   * so their replies go to that one.
+   */
+  private routeResponse(msg: any) {
+      let requestId: string | undefined = msg.request_id;
+      if (requestId === undefined && this.pending.size === 1) {
+          requestId = this.pending.keys().next().value;
+      }
+
+      const entry = requestId !== undefined ? this.pending.get(requestId) : undefined;
+      if (!entry) {
+          console.warn("HK-DB: uncorrelated message dropped", msg);
+          return;
+      }
+
+      this.pending.delete(requestId!);
+      clearTimeout(entry.timer);
+
+      if (msg.type === 'error') {
+          emitLog(`Operation Error: ${msg.message}`, 'error');
+          entry.reject(new MemoryRejectedError(msg.message));
+      } else {
+          entry.resolve(msg);
+      }
   }
 
-  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  private rejectAllPending(reason: Error) {
+      this.pending.forEach(entry => {
+          clearTimeout(entry.timer);
+          entry.reject(reason);
+      });
+      this.pending.clear();
+  }
+
+  /**
+   * Sends a message tagged with a fresh request_id and resolves with the matching response.
+   * Any number of requests may be in flight at once, each with its own timeout; on a server that
+   * does not echo request_id they are queued and sent one after another instead.
+   */
+  async request(payload: Record<string, any>, timeoutMs: number = REQUEST_TIMEOUT_MS, logTimeout: boolean = true): Promise<any> {
+      await this.connect();
+      if (this.correlated) return this.dispatch(payload, timeoutMs, logTimeout);
+
+      const run = () => this.dispatch(payload, timeoutMs, logTimeout);
+      const result = this.serialQueue.then(run, run);
+      this.serialQueue = result.catch(() => {});
+      return result;
+  }
+
+  private dispatch(payload: Record<string, any>, timeoutMs: number, logTimeout: boolean): Promise<any> {
+      const requestId = `${Date.now().toString(36)}-${++this.requestCounter}`;
+
       return new Promise((resolve, reject) => {
-          this.queue.push(async () => {
-              try {
-                  await this.connect();
-                  const result = await operation();
-                  resolve(result);
-              } catch (e) {
-                  reject(e);
+          const timer = setTimeout(() => {
+              if (this.pending.delete(requestId)) {
+                  if (logTimeout) emitLog(`Request ${payload.type} timed out after ${timeoutMs}ms.`, 'error');
+                  reject(new Error(`HK-DB request timed out: ${payload.type}`));
               }
-          });
-          this.processQueue();
+          }, timeoutMs);
+
+          this.pending.set(requestId, { resolve, reject, timer });
+
+          try {
+              this.sendRaw({ ...payload, request_id: requestId });
+              if (!this.awaitingReplySince) this.awaitingReplySince = Date.now();
+          } catch (e) {
+              this.pending.delete(requestId);
+              clearTimeout(timer);
+              reject(e);
+          }
       });
   }
 
-  private async processQueue() {
-      if (this.isProcessing) return;
-      this.isProcessing = true;
+  // Scope is only known after auth_ok, so connect before checking it
+  async authorize(permission: MemoryPermission, partition: string) {
+      await this.connect();
+      assertPermitted(permission, partition);
+  }
+}
+
+const isSaltRecord = (item: any) => item.categories?.[0] === SALT_CATEGORY && typeof item.data === 'string';
+
+/**
+ * Memory Core over the hk-db WebSocket protocol, bound to one partition.
+ * Content, tags and metadata are sealed client-side while encryption is enabled (see memory-crypto.ts).
+ */
+export class MemoryDBClient implements MemoryStore {
+  readonly kind = 'websocket' as const;
+  readonly partition: string;
+  private link: MemoryCoreLink;
 
-      while (this.queue.length > 0) {
-          const task = this.queue.shift();
-          if (task) await task();
+  constructor(partition: string, link: MemoryCoreLink = new MemoryCoreLink()) {
+    this.partition = partition;
+    this.link = link;
+  }
+
+  forPartition(partition: string): MemoryStore {
+    return partition === this.partition ? this : new MemoryDBClient(partition, this.link);
+  }
+
+  connect(): Promise<void> {
+    return this.link.connect();
+  }
+
+  // Shared by every partition view: closes the one socket
+  disconnect() {
+    this.link.disconnect();
+  }
+
+  private authorize(permission: MemoryPermission) {
+    return this.link.authorize(permission, this.partition);
+  }
+
+  private request(payload: Record<string, any>): Promise<any> {
+    return this.link.request({ ...payload, partition: this.partition });
+  }
+
+  private keys(): Promise<MemoryKeys | null> {
+    return keysForPartition(this.partition, () => this.loadSalt());
+  }
+
+  /**
+   * The partition's KDF salt, created on first use. Two devices racing to create it both settle on
+   * the oldest record, so they derive the same keys.
+   */
+  private async loadSalt(): Promise<Uint8Array> {
+    const oldest = async () => {
+      await this.authorize('read');
+      const items: any[] = [];
+      let cursor: string | undefined;
+      // Legacy servers ignore the filter, so the salt can be on any page of the partition
+      for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+        const msg = await this.request({ type: 'search', categories: [SALT_CATEGORY], tags: [], limit: SEARCH_PAGE_SIZE, cursor });
+        if (msg.type !== 'search_results') throw new Error('Unexpected response: ' + msg.type);
+        if (Array.isArray(msg.items)) items.push(...msg.items);
+        cursor = msg.next_cursor || undefined;
+        if (!cursor) break;
       }
+      const salts = items
+        .filter(isSaltRecord)
+        .sort((a: any, b: any) => (a.created_ms || 0) - (b.created_ms || 0) || String(a.id).localeCompare(String(b.id)));
+      return salts.length ? fromBase64(salts[0].data) : null;
+    };
+
+    const existing = await oldest();
+    if (existing) return existing;
 
-      this.isProcessing = false;
+    await this.authorize('write');
+    const salt = crypto.getRandomValues(new Uint8Array(KDF_SALT_BYTES));
+    const msg = await this.request({ type: 'insert', data: toBase64(salt), tags: [], categories: [SALT_CATEGORY] });
+    if (msg.type !== 'inserted') throw new Error('Unexpected response: ' + msg.type);
+    emitLog(`Encryption salt created for partition ${this.partition}.`, 'info');
+    return (await oldest()) ?? salt;
   }
 
   // --- Public Operations ---
 
-  public async insert(content: string, category: string, tags: string[]): Promise<string> {
+  public async insert(content: string, category: string, tags: string[], createdMs?: number, meta?: MemoryMeta): Promise<string> {
+      await this.authorize('write');
       emitLog(`Archiving to sector [${category}]: "${content.substring(0, 20)}..."`, 'info');
-      return this.enqueue(async () => {
-          return new Promise((resolve, reject) => {
-              this.pendingResolver = (msg: any) => {
-                  if (msg.type === 'inserted') {
-                      emitLog(`Archive confirmed. ID: ${msg.id}`, 'success');
-                      resolve(msg.id);
-                  }
-                  else reject(new Error('Unexpected response: ' + msg.type));
-              };
-              this.pendingRejecter = reject;
-
-              this.sendRaw({
-                  type: 'insert',
-                  partition: PARTITION,
-                  data: content,
-                  tags: tags,
-                  categories: [category]
-              });
-          });
+      const keys = await this.keys();
+      const sealedMeta = await sealMeta(keys, meta);
+      const msg = await this.request({
+          type: 'insert',
+          data: await sealText(keys, content),
+          tags: await sealTags(keys, tags),
+          categories: [category],
+          ...(createdMs !== undefined ? { created_ms: createdMs } : {}),
+          ...(sealedMeta ? { meta: sealedMeta } : {})
       });
+      if (msg.type !== 'inserted') throw new Error('Unexpected response: ' + msg.type);
+      emitLog(`Archive confirmed. ID: ${msg.id}`, 'success');
+      return msg.id;
   }
 
-  public async fetchAll(): Promise<Memory[]> {
-      emitLog("Initiating full memory dump...", 'info');
-      return this.enqueue(async () => {
-          return new Promise((resolve, reject) => {
-              this.pendingResolver = (msg: any) => {
-                  if (msg.type === 'search_results') {
-                      const memories = this.mapItemsToMemory(msg.items);
-                      emitLog(`Memory dump complete. ${memories.length} records found.`, 'success');
-                      resolve(memories);
-                  } else {
-                      reject(new Error('Unexpected response: ' + msg.type));
-                  }
-              };
-              this.pendingRejecter = reject;
-
-              this.sendRaw({
-                  type: 'search',
-                  partition: PARTITION,
-                  tags: [],
-                  categories: []
-              });
-          });
+  public async update(id: string | number, patch: MemoryPatch): Promise<void> {
+      await this.authorize('write');
+      // Metadata-only patches (access stats, pins) are frequent and not worth a log line
+      const quiet = Object.keys(patch).every(key => key === 'meta');
+      if (!quiet) emitLog(`Rewriting archive ${id}...`, 'info');
+      const keys = await this.keys();
+      const msg = await this.request({
+          type: 'update',
+          id,
+          data: patch.content !== undefined ? await sealText(keys, patch.content) : undefined,
+          tags: patch.tags !== undefined ? await sealTags(keys, patch.tags) : undefined,
+          categories: patch.category !== undefined ? [patch.category] : undefined,
+          meta: await sealMeta(keys, patch.meta)
+      });
+      if (msg.type !== 'updated') throw new Error('Unexpected response: ' + msg.type);
+      if (!quiet) emitLog(`Archive ${id} rewritten.`, 'success');
+  }
+
+  public async delete(id: string | number): Promise<void> {
+      await this.authorize('delete');
+      emitLog(`Purging archive ${id}...`, 'info');
+      const msg = await this.request({
+          type: 'delete',
+          id
       });
+      if (msg.type !== 'deleted') throw new Error('Unexpected response: ' + msg.type);
+      emitLog(`Archive ${id} purged.`, 'success');
+  }
+
+  /**
+   * Requests a single page of results. Servers that support filtering answer with `filtered: true`
+   * and a `next_cursor` while more pages remain.
+   * A free-text query cannot be matched against ciphertext; with encryption on it is left out
+   * (together with the tags it is OR-ed with) and the page is reported unfiltered for local filtering.
+   */
+  public async search(filter: MemoryQuery, cursor: string | null = null): Promise<SearchPage> {
+      await this.authorize('read');
+      const keys = await this.keys();
+      const pushDown = !filter.query || canSearchContent(keys);
+      const msg = await this.request({
+          type: 'search',
+          query: pushDown ? filter.query || undefined : undefined,
+          tags: pushDown ? await tagSearchTerms(keys, filter.tags || []) : [],
+          categories: filter.categories || [],
+          since_ms: filter.since_ms,
+          until_ms: filter.until_ms,
+          limit: filter.limit ?? SEARCH_PAGE_SIZE,
+          cursor: cursor || undefined
+      });
+      if (msg.type !== 'search_results') throw new Error('Unexpected response: ' + msg.type);
+      return {
+          memories: await this.mapItemsToMemory(msg.items, keys),
+          nextCursor: msg.next_cursor || null,
+          filtered: pushDown && msg.filtered === true
+      };
+  }
+
+  public async list(): Promise<Memory[]> {
+      emitLog("Initiating full memory dump...", 'info');
+      const { memories } = await searchAllPages(this, {});
+      emitLog(`Memory dump complete. ${memories.length} records found.`, 'success');
+      return memories;
   }
   
-  private mapItemsToMemory(items: any[]): Memory[] {
+  /**
+   * Records that cannot be decrypted are left out rather than shown as ciphertext,
+   * so nothing downstream (edits, consolidation) can overwrite them.
+   */
+  private async mapItemsToMemory(items: any[], keys: MemoryKeys | null): Promise<Memory[]> {
       if (!Array.isArray(items)) return [];
-      return items.map(item => ({
-          id: item.id,
-          content: item.data,
-          category: item.categories?.[0] || 'Unknown',
-          tags: item.tags || [],
-          created_ms: item.created_ms || Date.now()
-      }));
+      const memories: Memory[] = [];
+      let hidden = 0;
+      let reason = '';
+      for (const item of items) {
+          if (isSaltRecord(item)) continue;
+          try {
+              memories.push({
+                  id: item.id,
+                  content: await openText(keys, item.data),
+                  category: item.categories?.[0] || 'Unknown',
+                  tags: await openTags(keys, item.tags || []),
+                  created_ms: item.created_ms || Date.now(),
+                  partition: this.partition,
+                  meta: await openMeta(keys, item.meta)
+              });
+          } catch (e: any) {
+              if (!(e instanceof MemoryDecryptionError)) throw e;
+              hidden++;
+              reason = e.message;
+          }
+      }
+      if (hidden > 0) emitLog(`${hidden} encrypted records hidden: ${reason}.`, 'error');
+      return memories;
   }
 }
 
-export const db = new MemoryDBClient();
+// --- Backend Selection ---
+
+// Stores are bound to the active operator's partition; other partitions are reached through forPartition
+const createStore = (backend: MemoryBackend): MemoryStore => {
+  const partition = getOperatorProfile().partition;
+  switch (backend) {
+      case 'indexeddb': return new IndexedDBMemoryStore(partition);
+      case 'memory': return new InMemoryStore(partition);
+      default: return new MemoryDBClient(partition);
+  }
+};
+
+const initialBackend = (): MemoryBackend => {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(BACKEND_STORAGE_KEY) : null;
+  const configured = stored || process.env.HK_MEMORY_BACKEND;
+  return configured === 'indexeddb' || configured === 'memory' ? configured : 'websocket';
+};
+
+let store: MemoryStore = createStore(initialBackend());
+
+export const getMemoryStore = () => store;
+
+// The active operator's partition first, then the shared one
+const readableStores = (): MemoryStore[] => readablePartitions().map(p => store.forPartition(p));
+
+export const connectMemoryStore = () => store.connect();
+
+/**
+ * Credentials from the login form. Replaces env credentials and reconnects the remote backend.
+ */
+export const loginToMemoryCore = async (login: string, password: string): Promise<void> => {
+  setPasswordCredentials({ login, password });
+  if (store.kind !== 'websocket') return;
+  store.disconnect();
+  await store.connect();
+};
+
+/**
+ * Swaps the active backend at runtime. The choice is remembered across reloads.
+ */
+export const setMemoryBackend = async (backend: MemoryBackend): Promise<void> => {
+  if (backend === store.kind) return;
+  // A link still connecting or retrying is not carried over: the new backend waits for an explicit connect
+  const wasConnected = getMemoryState() === MemoryCoreState.ONLINE;
+
+  store.disconnect();
+  store = createStore(backend);
+  if (typeof localStorage !== 'undefined') localStorage.setItem(BACKEND_STORAGE_KEY, backend);
+  emitLog(`Memory backend switched to ${backend.toUpperCase()}.`, 'info');
+
+  if (wasConnected) {
+      await store.connect().catch(() => {});
+  }
+};
+
+/**
+ * Enables end-to-end encryption for the remote backend (null disables it). Records hidden under the
+ * previous key become readable, so the vector index is caught up afterwards.
+ */
+export const setMemoryPassphrase = async (passphrase: string | null): Promise<void> => {
+  try {
+      await setEncryptionPassphrase(passphrase);
+  } catch (error: any) {
+      emitLog(`Key derivation failed: ${error.message}`, 'error');
+      throw error;
+  }
+  emitLog(passphrase ? 'Memory encryption key armed.' : 'Memory encryption disabled.', passphrase ? 'success' : 'info');
+  if (getMemoryState() === MemoryCoreState.ONLINE) refreshEmbeddingIndex();
+};
+
+// --- Offline Write-Behind ---
+
+let isFlushing = false;
+
+/**
+ * Refusals are final: the Memory Core answered with an error or the scope does not allow the write.
+ * Everything else (no uplink, timeout, not logged in yet) may succeed once the link is back.
+ */
+const isRejection = (error: unknown) => error instanceof MemoryRejectedError || error instanceof MemoryScopeError;
+
+/**
+ * Returns the temporary ID, or null if the outbox itself is unusable.
+ */
+const queueOffline = async (content: string, category: string, tags: string[], createdMs: number = Date.now(), meta?: MemoryMeta): Promise<string | null> => {
+  const tempId = createTempId();
+  try {
+      await addToOutbox({ tempId, partition: store.partition, content, category, tags, created_ms: createdMs, meta });
+      emitLog(`Record held in local outbox (${getPendingCount()} pending). Temp ID: ${tempId}`, 'info');
+      return tempId;
+  } catch (error: any) {
+      emitLog(`Local outbox unavailable: ${error.message}`, 'error');
+      return null;
+  }
+};
+
+/**
+ * Replays outbox entries in insertion order. Stops at the first transport failure so order is preserved;
+ * entries the Memory Core refuses are moved to the dead-letter list and replay goes on.
+ */
+export const flushOutbox = async (): Promise<void> => {
+  if (isFlushing) return;
+  isFlushing = true;
+
+  let replayed = 0;
+  try {
+      // Re-read after each pass: saves made during replay are appended to the outbox
+      let entries = await listOutbox();
+      while (entries.length > 0) {
+          emitLog(`Replaying ${entries.length} offline records...`, 'info');
+          for (const entry of entries) {
+              // Entries go to the partition of the operator who recorded them, even after a profile switch
+              const target = store.forPartition(entry.partition ?? store.partition);
+              let serverId: string;
+              try {
+                  serverId = await target.insert(entry.content, entry.category, entry.tags, entry.created_ms, entry.meta);
+              } catch (error: any) {
+                  if (!isRejection(error)) throw error;
+                  await moveToDeadLetter(entry, error.message);
+                  emitLog(`Offline record ${entry.tempId} refused (${error.message}); moved to dead letters.`, 'error');
+                  continue;
+              }
+              await completeOutboxEntry(entry, serverId);
+              indexInBackground([{ id: serverId, content: entry.content, category: entry.category, tags: entry.tags, created_ms: entry.created_ms, partition: target.partition, meta: entry.meta }]);
+              emitLog(`Offline record ${entry.tempId} -> ID ${serverId}`, 'success');
+              replayed++;
+          }
+          entries = await listOutbox();
+      }
+  } catch (error: any) {
+      emitLog(`Outbox replay halted: ${error.message}`, 'error');
+  } finally {
+      isFlushing = false;
+      if (replayed > 0) {
+          emitLog(`Outbox replay: ${replayed} synced, ${getPendingCount()} pending.`, getPendingCount() === 0 ? 'success' : 'info');
+      }
+  }
+};
+
+// --- Embedding Index Maintenance ---
+
+const indexInBackground = (memories: Memory[]) => {
+  indexMemories(memories).catch((error: any) => {
+      emitLog(`Vector index update failed: ${error.message}`, 'error');
+  });
+};
+
+/**
+ * Lists every readable partition. Only the operator's own partition is required;
+ * an unreachable shared partition (e.g. outside the granted scope) is logged and skipped.
+ */
+const listReadable = async (): Promise<Memory[]> => {
+  const [own, ...others] = await Promise.allSettled(readableStores().map(s => s.list()));
+  if (own.status === 'rejected') throw own.reason;
+  return others.reduce<Memory[]>((all, result) => {
+      if (result.status === 'fulfilled') return all.concat(result.value);
+      emitLog(`Shared partition unavailable: ${result.reason?.message}`, 'error');
+      return all;
+  }, own.value);
+};
+
+/**
+ * Embeds records the local index has not seen yet and prunes deleted ones.
+ */
+export const refreshEmbeddingIndex = async (): Promise<void> => {
+  try {
+      const { embedded, pruned } = await syncIndex(await listReadable(), readablePartitions());
+      if (embedded || pruned) {
+          emitLog(`Vector index synced: ${embedded} embedded, ${pruned} pruned.`, 'success');
+      }
+  } catch (error: any) {
+      emitLog(`Vector index sync failed: ${error.message}`, 'error');
+  }
+};
+
+// Replay the outbox, then catch the vector index up, whenever the uplink (re)authenticates
+subscribeToMemoryState(state => {
+  if (state === MemoryCoreState.ONLINE) flushOutbox().then(refreshEmbeddingIndex);
+});
+
+// An operator switch keeps the connection and only rebinds the store to the new partition
+subscribeToOperatorProfile(profile => {
+  if (profile.partition === store.partition) return;
+  store = store.forPartition(profile.partition);
+  emitLog(`Operator profile: ${profile.name} (partition ${profile.partition}).`, 'info');
+  if (getMemoryState() === MemoryCoreState.ONLINE) refreshEmbeddingIndex();
+});
 
 // --- Exported Helper Functions ---
 
-export const saveMemory = async (content: string, category: string, tags: string[]): Promise<string> => {
+/**
+ * `createdMs` keeps the original timestamp when re-inserting records (e.g. on import).
+ * Writes that cannot reach the Memory Core are held in the outbox; writes it refuses, or that the
+ * outbox cannot hold either, are thrown.
+ */
+export const saveMemory = async (content: string, category: string, tags: string[], createdMs?: number, meta?: MemoryMeta): Promise<string> => {
+  // Older offline records must land first
+  if (getPendingCount() > 0) {
+      const tempId = await queueOffline(content, category, tags, createdMs, meta);
+      if (tempId) {
+          if (getMemoryState() === MemoryCoreState.ONLINE) flushOutbox();
+          return tempId;
+      }
+      // Outbox unusable: write straight through instead
+  }
   try {
-      return await db.insert(content, category, tags);
+      const id = await store.insert(content, category, tags, createdMs, meta);
+      indexInBackground([{ id, content, category, tags, created_ms: createdMs ?? Date.now(), partition: store.partition, meta }]);
+      return id;
   } catch (error: any) {
       emitLog(`Write Protocol Failed: ${error.message}`, 'error');
-      return "offline-id-" + Date.now();
+      if (isRejection(error)) throw error;
+      const tempId = await queueOffline(content, category, tags, createdMs, meta);
+      if (tempId) return tempId;
+      emitLog(`Record lost: "${content.substring(0, 20)}..."`, 'error');
+      throw error;
+  }
+};
+
+/**
+ * Offline IDs are swapped for server IDs once replayed; records still in the outbox cannot be changed yet.
+ */
+const toServerId = async (id: string | number): Promise<string | number> => {
+  const resolved = typeof id === 'string' ? await resolveMemoryId(id) : id;
+  if (typeof resolved === 'string' && resolved.startsWith('offline-')) {
+      throw new Error(`Record ${id} is still pending in the local outbox`);
+  }
+  return resolved;
+};
+
+/**
+ * Store for the partition a record lives in: as given, else as last seen by the vector index, else the operator's own.
+ */
+const storeForRecord = async (id: string | number, partition?: string): Promise<MemoryStore> => {
+  const known = partition ?? (await getIndexedMemory(id).catch(() => undefined))?.partition;
+  return known ? store.forPartition(known) : store;
+};
+
+export const updateMemory = async (id: string | number, patch: MemoryPatch, partition?: string): Promise<boolean> => {
+  try {
+      const serverId = await toServerId(id);
+      await (await storeForRecord(serverId, partition)).update(serverId, patch);
+      const previous = await getIndexedMemory(serverId).catch(() => undefined);
+      if (previous) indexInBackground([{ ...previous, ...patch }]);
+      return true;
+  } catch (error: any) {
+      emitLog(`Update Protocol Failed: ${error.message}`, 'error');
+      return false;
+  }
+};
+
+export const deleteMemory = async (id: string | number, partition?: string): Promise<boolean> => {
+  try {
+      const serverId = await toServerId(id);
+      await (await storeForRecord(serverId, partition)).delete(serverId);
+      removeFromIndex(serverId).catch(() => {});
+      return true;
+  } catch (error: any) {
+      emitLog(`Purge Protocol Failed: ${error.message}`, 'error');
+      return false;
+  }
+};
+
+/**
+ * Adds and removes tags across several records; logs one summary line.
+ */
+export const retagMemories = async (memories: Memory[], change: { add?: string[], remove?: string[] }): Promise<number> => {
+  const add = (change.add || []).map(t => t.trim()).filter(Boolean);
+  const remove = new Set((change.remove || []).map(t => t.trim().toLowerCase()));
+  let updated = 0;
+
+  for (const m of memories) {
+      if (m.id === undefined) continue;
+      const kept = m.tags.filter(t => !remove.has(t.toLowerCase()));
+      const tags = [...kept, ...add.filter(t => !kept.some(k => k.toLowerCase() === t.toLowerCase()))];
+      if (tags.length === m.tags.length && tags.every((t, i) => t === m.tags[i])) continue;
+      if (await updateMemory(m.id, { tags }, m.partition)) updated++;
   }
+
+  emitLog(`Bulk re-tag: ${updated} of ${memories.length} records updated.`, updated ? 'success' : 'info');
+  return updated;
 };
 
+/**
+ * The operator's records plus the shared partition's, without expired ones.
+ */
 export const getAllMemories = async (): Promise<Memory[]> => {
   try {
-      return await db.fetchAll();
+      const now = Date.now();
+      return (await listReadable()).filter(m => !isExpired(m, now));
   } catch (error: any) {
       emitLog(`Read Protocol Failed: ${error.message}`, 'error');
       return [];
   }
 };
 
-export const searchMemories = async (query: string, searchTags: string[] = []): Promise<Memory[]> => {
+const SEARCH_RESULT_LIMIT = 5;
+// Candidates fetched from the server per query word before local ranking
+const SEARCH_CANDIDATE_LIMIT = 200;
+// Query words sent to the server as separate candidate requests, longest (most specific) first
+const MAX_CANDIDATE_TERMS = 4;
+// Nearest neighbours pulled from the local vector index
+const VECTOR_CANDIDATE_LIMIT = 20;
+
+/**
+ * One filter per significant query word (stemmed, so word forms still match) plus one for the tags:
+ * a record becomes a candidate by sharing any word with the query, not only by containing the whole phrase.
+ */
+const candidateFilters = (query: string, searchTags: string[]): MemoryQuery[] => {
+  const terms = [...new Set(tokenize(query))].sort((a, b) => b.length - a.length).slice(0, MAX_CANDIDATE_TERMS);
+  const filters: MemoryQuery[] = (terms.length ? terms : [query.trim()])
+      .filter(Boolean)
+      .map(term => ({ query: term, limit: SEARCH_CANDIDATE_LIMIT }));
+  if (searchTags.length) filters.push({ tags: searchTags, limit: SEARCH_CANDIDATE_LIMIT });
+  return filters;
+};
+
+/**
+ * Union of the filters' results. A store that ignores filters (legacy server, encrypted content) answers
+ * the first request with a full dump, which is then filtered locally for every filter instead of fetched again.
+ */
+const fetchCandidates = async (target: MemoryStore, filters: MemoryQuery[]): Promise<Memory[]> => {
+  const [first, ...rest] = filters;
+  const firstPage = await searchAllPages(target, first);
+  const pages = firstPage.filtered
+      ? [firstPage, ...await Promise.all(rest.map(f => searchAllPages(target, f)))]
+      : filters.map(() => firstPage);
+
+  const byId = new Map<string | number, Memory>();
+  pages.forEach((page, i) => {
+      const matches = page.filtered ? page.memories : page.memories.filter(m => matchesQuery(m, filters[i]));
+      matches.forEach(m => byId.set(m.id!, m));
+  });
+  return [...byId.values()];
+};
+
+export const searchMemories = async (query: string, searchTags: string[] = []): Promise<ScoredMemory[]> => {
   try {
       if (query || searchTags.length > 0) {
           emitLog(`Searching archives: "${query}" ${searchTags.length ? `[${searchTags.join(',')}]` : ''}`, 'info');
       }
       
-      const allMemories = await db.fetchAll();
-      
-      const q = query.toLowerCase().trim();
-      const sTags = searchTags.map(t => t.toLowerCase());
+      if (!query.trim() && searchTags.length === 0) return [];
 
-      if (!q && sTags.length === 0) return [];
+      const filters = candidateFilters(query, searchTags);
+      const partitions = readablePartitions();
+      const [fetched, indexHits] = await Promise.all([
+          Promise.all(readableStores().map((s, i) => fetchCandidates(s, filters).catch((error: any) => {
+              // The operator's own partition must answer; the shared one may be out of scope
+              if (i === 0) throw error;
+              emitLog(`Shared partition unavailable: ${error.message}`, 'error');
+              return null;
+          }))),
+          searchIndex(`${query} ${searchTags.join(' ')}`, VECTOR_CANDIDATE_LIMIT).catch((error: any) => {
+              emitLog(`Semantic search unavailable: ${error.message}`, 'error');
+              return [];
+          })
+      ]);
+      // The index spans every profile used on this device; keep only what this operator may read
+      const now = Date.now();
+      const vectorHits = indexHits.filter(hit =>
+          hit.memory.partition !== undefined && partitions.includes(hit.memory.partition) && !isExpired(hit.memory, now));
 
-      const results = allMemories.filter(m => {
-        const inContent = q && m.content.toLowerCase().includes(q);
-        const inCategory = q && m.category.toLowerCase().includes(q);
-        const inTags = q && m.tags.some(t => t.toLowerCase().includes(q));
-        const tagMatch = sTags.some(st => m.tags.some(mt => mt.toLowerCase().includes(st)));
-        return inContent || inCategory || inTags || tagMatch;
-      });
+      const candidates = fetched
+          .flatMap(memories => memories ?? [])
+          .filter(m => !isExpired(m, now));
 
-      results.sort((a, b) => b.created_ms - a.created_ms);
+      // Hybrid matches first (pinned and important records boosted); substring-only matches follow, newest first
+      const ranked = boostByPriority(hybridRank(rankMemories(candidates, query, searchTags), vectorHits));
+      const rankedIds = new Set(ranked.map(m => m.id));
+      const unranked: ScoredMemory[] = candidates
+          .filter(m => !rankedIds.has(m.id))
+          .sort((a, b) => b.created_ms - a.created_ms)
+          .map(m => ({ ...m, score: 0, confidence: 0 }));
+      const results = [...ranked, ...unranked];
       
       if (results.length > 0) {
-          emitLog(`Search complete. ${results.length} relevant records identified.`, 'success');
+          emitLog(`Search complete. ${results.length} relevant records identified (${vectorHits.length} semantic). Top score: ${results[0].score.toFixed(2)}`, 'success');
       } else {
           emitLog("Search complete. No relevant records found.", 'info');
       }
       
-      return results.slice(0, 5);
+      const top = results.slice(0, SEARCH_RESULT_LIMIT);
+      recordAccess(top);
+      return top;
   } catch (error: any) {
       emitLog(`Search Protocol Failed: ${error.message}`, 'error');
       return [];
   }
 };
 
-export const formatMemoriesForPrompt = (memories: Memory[]): string => {
+// Partitions (per backend) that refused an access-stats write this session, e.g. a read-only shared partition
+const statsRefused = new Set<string>();
+
+const canRecordAccess = (target: MemoryStore): boolean => {
+  if (statsRefused.has(`${target.kind}:${target.partition}`)) return false;
+  try {
+      assertPermitted('write', target.partition);
+      return true;
+  } catch {
+      return false;
+  }
+};
+
+/**
+ * Bumps access stats of retrieved records in the background. The index snapshot is refreshed too,
+ * so a later semantic-only hit does not write back stale metadata.
+ * Records in partitions the session cannot write to keep their stats unchanged.
+ */
+const recordAccess = (results: ScoredMemory[]) => {
+  const now = Date.now();
+  results.forEach(({ score, confidence, embedding, ...m }) => {
+      if (m.id === undefined || String(m.id).startsWith('offline-')) return;
+      const target = store.forPartition(m.partition ?? store.partition);
+      if (!canRecordAccess(target)) return;
+      const meta: MemoryMeta = { ...m.meta, last_accessed_ms: now, access_count: (m.meta?.access_count || 0) + 1 };
+      target.update(m.id, { meta })
+          .then(() => indexInBackground([{ ...m, meta }]))
+          .catch((error: any) => {
+              if (isRejection(error)) statsRefused.add(`${target.kind}:${target.partition}`);
+              else console.warn(`[MemoryDB] Access stats for ${m.id} not recorded`, error);
+          });
+  });
+};
+
+const CORE_MEMORY_LIMIT = 10;
+// Importance at which a record counts as core knowledge even when not pinned
+const CORE_IMPORTANCE = 4;
+
+/**
+ * Pinned and highly important records for the session prompt: pinned first, then by importance, then newest.
+ */
+export const getCoreMemories = async (): Promise<Memory[]> => {
+  const importance = (m: Memory) => m.meta?.importance ?? DEFAULT_IMPORTANCE;
+  return (await getAllMemories())
+      .filter(m => m.meta?.pinned || importance(m) >= CORE_IMPORTANCE)
+      .sort((a, b) => Number(!!b.meta?.pinned) - Number(!!a.meta?.pinned) || importance(b) - importance(a) || b.created_ms - a.created_ms)
+      .slice(0, CORE_MEMORY_LIMIT);
+};
+
+export const formatMemoriesForPrompt = (memories: Array<Memory | ScoredMemory>): string => {
   if (!memories || memories.length === 0) return "No data available in archives.";
-  return memories.map(m => 
-    `[ARCHIVE:${m.id} | ${m.category}] ${m.content}`
-  ).join('\n');
+  return memories.map(m => {
+    const source = SHARED_PARTITION && m.partition === SHARED_PARTITION ? ' | source: SHARED' : ' | source: OPERATOR';
+    const hint = 'confidence' in m ? ` | relevance: ${confidenceLabel(m.confidence)}` : '';
+    const pin = m.meta?.pinned ? ' | PINNED' : '';
+    return `[ARCHIVE:${m.id} | ${m.category}${source}${pin}${hint}] ${m.content}`;
+  }).join('\n');
 };
         
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { MemoryCoreState } from '../types';
+
+// Log and connection-state channels shared by every memory backend.
+
+// --- Logging System ---
+export type LogType = 'info' | 'error' | 'success';
+type LogCallback = (message: string, type: LogType) => void;
+const listeners: LogCallback[] = [];
+
+export const subscribeToMemoryLogs = (callback: LogCallback) => {
+  listeners.push(callback);
+  return () => {
+    const index = listeners.indexOf(callback);
+    if (index > -1) listeners.splice(index, 1);
+  };
+};
+
+export const emitLog = (message: string, type: LogType = 'info') => {
+  listeners.forEach(cb => cb(message, type));
+  if (type === 'error') console.error(`[MemoryDB] ${message}`);
+  else console.log(`[MemoryDB] ${message}`);
+};
+
+// --- Connection State ---
+type StateCallback = (state: MemoryCoreState) => void;
+const stateListeners: StateCallback[] = [];
+let currentState: MemoryCoreState = MemoryCoreState.OFFLINE;
+
+export const subscribeToMemoryState = (callback: StateCallback) => {
+  stateListeners.push(callback);
+  callback(currentState);
+  return () => {
+    const index = stateListeners.indexOf(callback);
+    if (index > -1) stateListeners.splice(index, 1);
+  };
+};
+
+export const getMemoryState = () => currentState;
+
+export const setMemoryState = (state: MemoryCoreState) => {
+  if (state === currentState) return;
+  currentState = state;
+  stateListeners.forEach(cb => cb(state));
+};
@@ -0,0 +1,127 @@
+// Write-behind outbox for memories that could not reach the Memory Core.
+// Entries live in IndexedDB so they survive reloads, and are replayed in insertion order.
+// Entries the Memory Core refuses on replay are parked in a dead-letter list so the rest can go on.
+
+import { idbRequest, idbTransaction, openIdb } from './idb';
+import type { MemoryMeta } from './memory-store';
+
+export interface OutboxEntry {
+  seq?: number;
+  tempId: string;
+  // Operator partition at the time of writing; absent on entries queued before profiles existed
+  partition?: string;
+  content: string;
+  category: string;
+  tags: string[];
+  created_ms: number;
+  meta?: MemoryMeta;
+}
+
+export interface DeadLetter extends OutboxEntry {
+  // Why the Memory Core refused the entry
+  reason: string;
+  failed_ms: number;
+}
+
+const IDB_NAME = 'hk47-memory-outbox';
+const IDB_VERSION = 2;
+const OUTBOX_STORE = 'outbox';
+const ID_MAP_STORE = 'id_map';
+const DEAD_LETTER_STORE = 'dead_letter';
+
+// --- Pending Count Subscription ---
+type CountCallback = (count: number) => void;
+const countListeners: CountCallback[] = [];
+let pendingCount = 0;
+
+export const subscribeToOutboxCount = (callback: CountCallback) => {
+  countListeners.push(callback);
+  callback(pendingCount);
+  return () => {
+    const index = countListeners.indexOf(callback);
+    if (index > -1) countListeners.splice(index, 1);
+  };
+};
+
+const setPendingCount = (count: number) => {
+  pendingCount = count;
+  countListeners.forEach(cb => cb(count));
+};
+
+export const getPendingCount = () => pendingCount;
+
+// --- IndexedDB Plumbing ---
+const openDatabase = () => openIdb(IDB_NAME, IDB_VERSION, idb => {
+  if (!idb.objectStoreNames.contains(OUTBOX_STORE)) {
+    idb.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+  }
+  if (!idb.objectStoreNames.contains(ID_MAP_STORE)) {
+    idb.createObjectStore(ID_MAP_STORE, { keyPath: 'tempId' });
+  }
+  if (!idb.objectStoreNames.contains(DEAD_LETTER_STORE)) {
+    idb.createObjectStore(DEAD_LETTER_STORE, { keyPath: 'seq' });
+  }
+});
+
+const runRequest = <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  idbRequest(openDatabase(), storeName, mode, action);
+
+const refreshCount = async () => {
+  try {
+    setPendingCount(await runRequest(OUTBOX_STORE, 'readonly', store => store.count()));
+  } catch (e) {
+    console.error('[Outbox] Count failed', e);
+  }
+};
+
+// --- Public API ---
+
+export const createTempId = () => `offline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const addToOutbox = async (entry: OutboxEntry): Promise<void> => {
+  await runRequest(OUTBOX_STORE, 'readwrite', store => store.add(entry));
+  await refreshCount();
+};
+
+/** Returns every pending entry, oldest first. */
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  return runRequest(OUTBOX_STORE, 'readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+};
+
+/** Removes a replayed entry and remembers which server ID replaced its temporary one. */
+export const completeOutboxEntry = async (entry: OutboxEntry, serverId: string): Promise<void> => {
+  await idbTransaction(openDatabase(), [OUTBOX_STORE, ID_MAP_STORE], 'readwrite', tx => {
+    tx.objectStore(OUTBOX_STORE).delete(entry.seq!);
+    tx.objectStore(ID_MAP_STORE).put({ tempId: entry.tempId, serverId });
+  });
+  await refreshCount();
+};
+
+/** Moves an entry the Memory Core refused out of the replay queue. */
+export const moveToDeadLetter = async (entry: OutboxEntry, reason: string): Promise<void> => {
+  const letter: DeadLetter = { ...entry, reason, failed_ms: Date.now() };
+  await idbTransaction(openDatabase(), [OUTBOX_STORE, DEAD_LETTER_STORE], 'readwrite', tx => {
+    tx.objectStore(OUTBOX_STORE).delete(entry.seq!);
+    tx.objectStore(DEAD_LETTER_STORE).put(letter);
+  });
+  await refreshCount();
+};
+
+/** Refused entries, oldest first, kept for inspection or a manual retry. */
+export const listDeadLetters = async (): Promise<DeadLetter[]> => {
+  return runRequest(DEAD_LETTER_STORE, 'readonly', store => store.getAll() as IDBRequest<DeadLetter[]>);
+};
+
+/** Maps a temporary offline ID to its server ID once replayed; other IDs are returned unchanged. */
+export const resolveMemoryId = async (id: string): Promise<string> => {
+  if (!id.startsWith('offline-')) return id;
+  try {
+    const row = await runRequest<{ tempId: string, serverId: string } | undefined>(ID_MAP_STORE, 'readonly', store => store.get(id));
+    return row?.serverId ?? id;
+  } catch (e) {
+    return id;
+  }
+};
+
+// Restore the pending count from a previous session
+refreshCount();
@@ -0,0 +1,213 @@
+import { DEFAULT_IMPORTANCE, Memory } from './memory-store';
+import type { VectorHit } from './embedding-index';
+
+// --- Relevance Ranking ---
+// BM25 over content, category and tags (each field scored separately and weighted),
+// multiplied by an exponential recency decay, optionally blended with vector similarity.
+
+export interface RankingOptions {
+  fieldWeights: { content: number; category: number; tags: number };
+  k1: number;
+  b: number;
+  // Age at which the recency factor halves
+  recencyHalfLifeDays: number;
+  // Share of the score governed by recency (0 = ignore age, 1 = age only)
+  recencyWeight: number;
+  // Extra multiplier for tags explicitly requested by the caller
+  requestedTagBoost: number;
+  // Multiplier for pinned records
+  pinnedBoost: number;
+  // Score change per importance level above (or below) the default
+  importanceStep: number;
+}
+
+export const DEFAULT_RANKING_OPTIONS: RankingOptions = {
+  fieldWeights: { content: 1.0, category: 0.6, tags: 1.5 },
+  k1: 1.2,
+  b: 0.75,
+  recencyHalfLifeDays: 30,
+  recencyWeight: 0.2,
+  requestedTagBoost: 1.5,
+  pinnedBoost: 1.5,
+  importanceStep: 0.1,
+};
+
+export interface ScoredMemory extends Memory {
+  score: number;
+  // Share of query terms found in the record (or vector similarity, if higher), 0..1
+  confidence: number;
+}
+
+const STOP_WORDS = new Set([
+  'и', 'в', 'во', 'на', 'с', 'со', 'к', 'по', 'о', 'об', 'от', 'до', 'из', 'за', 'у', 'не', 'ни', 'что', 'как',
+  'это', 'то', 'а', 'но', 'или', 'же', 'ли', 'бы', 'я', 'ты', 'он', 'она', 'мы', 'вы', 'они', 'мой', 'моя', 'мое', 'мои',
+  'меня', 'мне', 'тебя', 'тебе', 'какой', 'какая', 'какое', 'какие', 'про', 'для', 'при', 'над', 'под',
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'is', 'are', 'was', 'i', 'you', 'my', 'me', 'it',
+]);
+
+// Longest endings first so the greediest match wins
+const RU_ENDINGS = [
+  'иями', 'ями', 'ами', 'ого', 'его', 'ому', 'ему', 'ыми', 'ими', 'ешь', 'ете', 'ишь', 'ите', 'ться', 'тся',
+  'ая', 'яя', 'ое', 'ее', 'ые', 'ие', 'ый', 'ий', 'ой', 'ом', 'ем', 'ам', 'ям', 'ах', 'ях', 'ов', 'ев', 'ей',
+  'ую', 'юю', 'ть', 'ла', 'ло', 'ли', 'а', 'я', 'о', 'е', 'ы', 'и', 'у', 'ю', 'ь', 'й',
+].sort((x, y) => y.length - x.length);
+const EN_ENDINGS = ['ing', 'ies', 'ed', 'es', 'ly', 's'];
+const MIN_STEM = 3;
+
+const stem = (word: string): string => {
+  const endings = /[а-я]/.test(word) ? RU_ENDINGS : EN_ENDINGS;
+  for (const ending of endings) {
+    if (word.length - ending.length >= MIN_STEM && word.endsWith(ending)) {
+      return word.slice(0, -ending.length);
+    }
+  }
+  return word;
+};
+
+/**
+ * Lowercases, folds ё, splits on anything that is not a letter or digit, drops stop words and stems.
+ */
+export const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(t => t.length > 1 && !STOP_WORDS.has(t))
+    .map(stem);
+};
+
+type Field = keyof RankingOptions['fieldWeights'];
+const FIELDS: Field[] = ['content', 'category', 'tags'];
+
+const fieldTokens = (m: Memory): Record<Field, string[]> => ({
+  content: tokenize(m.content),
+  category: tokenize(m.category),
+  tags: m.tags.flatMap(tokenize),
+});
+
+/**
+ * Scores candidates against the query and tags, dropping records with no lexical match.
+ * Results are sorted best first.
+ */
+export const rankMemories = (
+  memories: Memory[],
+  query: string,
+  searchTags: string[] = [],
+  options: RankingOptions = DEFAULT_RANKING_OPTIONS,
+  now: number = Date.now()
+): ScoredMemory[] => {
+  const requestedTagTerms = new Set(searchTags.flatMap(tokenize));
+  const queryTerms = [...new Set([...tokenize(query), ...requestedTagTerms])];
+  if (queryTerms.length === 0 || memories.length === 0) return [];
+
+  const docs = memories.map(fieldTokens);
+  const N = docs.length;
+
+  // Per-field document frequency and average length
+  const df: Record<Field, Map<string, number>> = { content: new Map(), category: new Map(), tags: new Map() };
+  const avgLen: Record<Field, number> = { content: 0, category: 0, tags: 0 };
+  for (const doc of docs) {
+    for (const field of FIELDS) {
+      avgLen[field] += doc[field].length / N;
+      for (const term of new Set(doc[field])) {
+        df[field].set(term, (df[field].get(term) || 0) + 1);
+      }
+    }
+  }
+
+  const halfLifeMs = options.recencyHalfLifeDays * 24 * 60 * 60 * 1000;
+  const results: ScoredMemory[] = [];
+
+  memories.forEach((memory, i) => {
+    const doc = docs[i];
+    let lexical = 0;
+    const matched = new Set<string>();
+
+    for (const field of FIELDS) {
+      const tokens = doc[field];
+      if (tokens.length === 0) continue;
+
+      for (const term of queryTerms) {
+        const tf = tokens.filter(t => t === term).length;
+        if (tf === 0) continue;
+        matched.add(term);
+
+        const n = df[field].get(term) || 0;
+        const idf = Math.log(1 + (N - n + 0.5) / (n + 0.5));
+        const norm = tf * (options.k1 + 1) / (tf + options.k1 * (1 - options.b + options.b * tokens.length / (avgLen[field] || 1)));
+        let weight = options.fieldWeights[field];
+        if (field === 'tags' && requestedTagTerms.has(term)) weight *= options.requestedTagBoost;
+        lexical += weight * idf * norm;
+      }
+    }
+
+    if (lexical <= 0) return;
+
+    const age = Math.max(0, now - memory.created_ms);
+    const decay = Math.pow(0.5, age / halfLifeMs);
+    const score = lexical * (1 - options.recencyWeight + options.recencyWeight * decay);
+
+    results.push({ ...memory, score, confidence: matched.size / queryTerms.length });
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Coarse label for the prompt; the model handles words better than raw numbers.
+ */
+export const confidenceLabel = (confidence: number): 'HIGH' | 'MEDIUM' | 'LOW' => {
+  if (confidence >= 0.66) return 'HIGH';
+  if (confidence >= 0.33) return 'MEDIUM';
+  return 'LOW';
+};
+
+/**
+ * Merges lexical results with vector hits. Lexical scores are normalised to the best hit so both
+ * signals share a 0..1 scale; records found only semantically still compete on similarity.
+ */
+export const hybridRank = (
+  lexical: ScoredMemory[],
+  vectorHits: VectorHit[],
+  lexicalWeight: number = 0.5
+): ScoredMemory[] => {
+  const maxLexical = lexical.reduce((max, m) => Math.max(max, m.score), 0) || 1;
+  const merged = new Map<string, { memory: Memory, lexical: number, coverage: number, similarity: number }>();
+
+  for (const m of lexical) {
+    const { score, confidence, ...memory } = m;
+    merged.set(String(m.id), { memory, lexical: score / maxLexical, coverage: confidence, similarity: 0 });
+  }
+  for (const hit of vectorHits) {
+    const key = String(hit.memory.id);
+    const existing = merged.get(key);
+    if (existing) {
+      existing.similarity = hit.similarity;
+      existing.memory = { ...existing.memory, embedding: hit.memory.embedding };
+    } else {
+      merged.set(key, { memory: hit.memory, lexical: 0, coverage: 0, similarity: hit.similarity });
+    }
+  }
+
+  return [...merged.values()]
+    .map(({ memory, lexical, coverage, similarity }) => ({
+      ...memory,
+      score: lexicalWeight * lexical + (1 - lexicalWeight) * similarity,
+      confidence: Math.max(coverage, similarity),
+    }))
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Re-scores ranked results by their metadata: pinned records and those above default importance move up.
+ */
+export const boostByPriority = (
+  ranked: ScoredMemory[],
+  options: RankingOptions = DEFAULT_RANKING_OPTIONS
+): ScoredMemory[] => ranked
+  .map(m => {
+    const importance = m.meta?.importance ?? DEFAULT_IMPORTANCE;
+    const factor = (m.meta?.pinned ? options.pinnedBoost : 1) * Math.max(0, 1 + options.importanceStep * (importance - DEFAULT_IMPORTANCE));
+    return { ...m, score: m.score * factor };
+  })
+  .sort((a, b) => b.score - a.score);
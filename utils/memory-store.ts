@@ -0,0 +1,134 @@
+// Storage contract shared by the WebSocket Memory Core client and the local backends.
+
+export interface Memory {
+  id?: string | number;
+  content: string;
+  category: string;
+  tags: string[];
+  created_ms: number; 
+  // Partition the record was read from; set by the stores
+  partition?: string;
+  meta?: MemoryMeta;
+  // Vector from the active embedding provider, present on records returned by semantic search
+  embedding?: number[];
+}
+
+/**
+ * Search filter. `query` is matched against content, category and tags;
+ * a record matches when the query or any of the tags hits.
+ */
+export interface MemoryQuery {
+  query?: string;
+  tags?: string[];
+  categories?: string[];
+  since_ms?: number;
+  until_ms?: number;
+  limit?: number;
+}
+
+/**
+ * Client-owned metadata. Backends store it opaquely; servers that predate it drop it.
+ */
+export interface MemoryMeta {
+  // Earlier records folded into this one by consolidation, oldest first
+  history?: MemoryRevision[];
+  // 1 (trivia) .. 5 (critical); DEFAULT_IMPORTANCE when absent
+  importance?: number;
+  // Pinned records never expire, rank higher and are preloaded into every session
+  pinned?: boolean;
+  expires_ms?: number;
+  // Updated each time the record is returned by a search
+  last_accessed_ms?: number;
+  access_count?: number;
+}
+
+export const DEFAULT_IMPORTANCE = 3;
+
+/**
+ * The store received the operation and refused it (error reply, invalid record). Unlike a lost
+ * connection, sending the same operation again will not help.
+ */
+export class MemoryRejectedError extends Error {}
+
+export const isExpired = (m: Memory, now: number = Date.now()): boolean =>
+  !m.meta?.pinned && m.meta?.expires_ms !== undefined && m.meta.expires_ms <= now;
+
+export interface MemoryRevision {
+  id?: string | number;
+  content: string;
+  category: string;
+  tags: string[];
+  created_ms: number;
+  merged_ms: number;
+}
+
+export interface MemoryPatch {
+  content?: string;
+  category?: string;
+  tags?: string[];
+  meta?: MemoryMeta;
+}
+
+export interface SearchPage {
+  memories: Memory[];
+  nextCursor: string | null;
+  // false when the backend ignored the filter fields and returned an unfiltered dump
+  filtered: boolean;
+}
+
+export type MemoryBackend = 'websocket' | 'indexeddb' | 'memory';
+
+export interface MemoryStore {
+  readonly kind: MemoryBackend;
+  readonly partition: string;
+  // View of another partition over the same connection / storage
+  forPartition(partition: string): MemoryStore;
+  // Must publish ONLINE through setMemoryState once the store is usable
+  connect(): Promise<void>;
+  disconnect(): void;
+  insert(content: string, category: string, tags: string[], createdMs?: number, meta?: MemoryMeta): Promise<string>;
+  search(filter: MemoryQuery, cursor?: string | null): Promise<SearchPage>;
+  update(id: string | number, patch: MemoryPatch): Promise<void>;
+  delete(id: string | number): Promise<void>;
+  list(): Promise<Memory[]>;
+}
+
+export const MAX_SEARCH_PAGES = 50;
+
+/**
+ * Follows cursors until the result set is exhausted (or the limit / page cap is reached).
+ */
+export const searchAllPages = async (store: MemoryStore, filter: MemoryQuery): Promise<SearchPage> => {
+  const memories: Memory[] = [];
+  let cursor: string | null = null;
+  let filtered = false;
+
+  for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+    const result = await store.search(filter, cursor);
+    memories.push(...result.memories);
+    filtered = result.filtered;
+    cursor = result.nextCursor;
+    // An unfiltered page says nothing about how many matches were seen, so the limit only applies to filtered ones
+    if (!cursor || (filter.limit && filtered && memories.length >= filter.limit)) break;
+  }
+  return { memories, nextCursor: cursor, filtered };
+};
+
+/**
+ * Reference semantics of MemoryQuery, for backends that filter locally.
+ */
+export const matchesQuery = (m: Memory, filter: MemoryQuery): boolean => {
+  if (filter.since_ms !== undefined && m.created_ms < filter.since_ms) return false;
+  if (filter.until_ms !== undefined && m.created_ms > filter.until_ms) return false;
+  if (filter.categories?.length && !filter.categories.some(c => c.toLowerCase() === m.category.toLowerCase())) return false;
+
+  const q = (filter.query || '').toLowerCase().trim();
+  const sTags = (filter.tags || []).map(t => t.toLowerCase());
+  if (!q && sTags.length === 0) return true;
+
+  const inContent = q && m.content.toLowerCase().includes(q);
+  const inCategory = q && m.category.toLowerCase().includes(q);
+  const inTags = q && m.tags.some(t => t.toLowerCase().includes(q));
+  const tagMatch = sTags.some(st => m.tags.some(mt => mt.toLowerCase().includes(st)));
+  return !!(inContent || inCategory || inTags || tagMatch);
+};
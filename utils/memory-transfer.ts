@@ -0,0 +1,217 @@
+import { emitLog } from './memory-events';
+import { Memory, MemoryMeta, MemoryQuery, matchesQuery } from './memory-store';
+import { getMemoryStore, saveMemory } from './memory-db';
+
+// Backup and migration of the memory core: versioned JSON for machines, Markdown for people.
+// Both formats round-trip through importMemories.
+
+export type ExportFormat = 'json' | 'markdown';
+
+const EXPORT_FORMAT_ID = 'hk47-memory-export';
+const EXPORT_VERSION = 1;
+
+interface ExportedMemory {
+  id?: string | number;
+  content: string;
+  category: string;
+  tags: string[];
+  created_ms: number;
+  meta?: MemoryMeta;
+}
+
+interface ExportDocument {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exported_ms: number;
+  count: number;
+  memories: ExportedMemory[];
+}
+
+export interface ImportReport {
+  inserted: number;
+  skipped: number;
+  conflicting: number;
+  invalid: number;
+  // Saves that failed (e.g. refused by the Memory Core); the import carries on past them
+  failed: number;
+}
+
+// Unlike getAllMemories, a read failure surfaces instead of looking like an empty archive
+const listOrThrow = async (operation: string): Promise<Memory[]> => {
+  try {
+    return await getMemoryStore().list();
+  } catch (error: any) {
+    emitLog(`${operation} aborted: ${error.message}`, 'error');
+    throw error;
+  }
+};
+
+// --- Export ---
+
+const toExported = ({ id, content, category, tags, created_ms, meta }: Memory): ExportedMemory =>
+  ({ id, content, category, tags, created_ms, ...(meta ? { meta } : {}) });
+
+const toJson = (memories: Memory[]): string => {
+  const doc: ExportDocument = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exported_ms: Date.now(),
+    count: memories.length,
+    memories: memories.map(toExported),
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+// Markdown layout: one "## category" section per category, one bullet per record,
+// with a nested metadata line that the importer reads back.
+const toMarkdown = (memories: Memory[]): string => {
+  const byCategory = new Map<string, Memory[]>();
+  for (const m of memories) {
+    const list = byCategory.get(m.category) || [];
+    list.push(m);
+    byCategory.set(m.category, list);
+  }
+
+  const lines = [
+    `# HK-47 Memory Core Export`,
+    ``,
+    `Exported: ${new Date().toISOString()} · Records: ${memories.length} · Format version: ${EXPORT_VERSION}`,
+  ];
+  [...byCategory.keys()].sort().forEach(category => {
+    lines.push('', `## ${category}`, '');
+    byCategory.get(category)!
+      .sort((a, b) => a.created_ms - b.created_ms)
+      .forEach(m => {
+        lines.push(`- ${m.content.replace(/\s*\n\s*/g, ' ')}`);
+        lines.push(`  - tags: ${m.tags.join(', ')} · created: ${new Date(m.created_ms).toISOString()}${m.id !== undefined ? ` · id: ${m.id}` : ''}`);
+      });
+  });
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Serialises the whole partition, or only records matching the filter.
+ */
+export const exportMemories = async (format: ExportFormat, filter: MemoryQuery = {}): Promise<string> => {
+  const all = await listOrThrow('Export');
+  const selected = all.filter(m => matchesQuery(m, filter));
+  emitLog(`Export prepared: ${selected.length} of ${all.length} records (${format.toUpperCase()}).`, 'success');
+  return format === 'json' ? toJson(selected) : toMarkdown(selected);
+};
+
+// --- Import ---
+
+const parseJson = (text: string): ExportedMemory[] => {
+  const doc = JSON.parse(text);
+  if (doc?.format !== EXPORT_FORMAT_ID) throw new Error('Not an HK-47 memory export');
+  if (typeof doc.version !== 'number' || doc.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version: ${doc.version}`);
+  }
+  return Array.isArray(doc.memories) ? doc.memories : [];
+};
+
+const parseMarkdown = (text: string): ExportedMemory[] => {
+  const result: ExportedMemory[] = [];
+  let category = 'Unknown';
+  let current: ExportedMemory | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(/^##\s+(.+)$/);
+    if (heading) {
+      category = heading[1].trim();
+      continue;
+    }
+    const meta = line.match(/^\s+-\s+tags:(.*)$/);
+    if (meta && current) {
+      const [tagPart, ...rest] = meta[1].split(' · ');
+      current.tags = tagPart.split(',').map(t => t.trim()).filter(Boolean);
+      const created = rest.find(p => p.startsWith('created:'));
+      if (created) {
+        const ms = Date.parse(created.slice('created:'.length).trim());
+        if (!isNaN(ms)) current.created_ms = ms;
+      }
+      continue;
+    }
+    const item = line.match(/^-\s+(.+)$/);
+    if (item) {
+      current = { content: item[1].trim(), category, tags: [], created_ms: Date.now() };
+      result.push(current);
+    }
+  }
+  return result;
+};
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/ё/g, 'е').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const contentKey = (m: { content: string }) => normalize(m.content);
+
+const fullKey = (m: { content: string, tags: string[] }) =>
+  `${contentKey(m)}|${[...new Set(m.tags.map(normalize))].sort().join(',')}`;
+
+const isValid = (m: any): m is ExportedMemory =>
+  typeof m?.content === 'string' && m.content.trim() !== '' && Array.isArray(m.tags ?? []);
+
+/**
+ * Merges an export (JSON or Markdown, detected from the content) into the current partition.
+ * Records identical by normalised content and tags are skipped; same content with different
+ * tags is reported as a conflict and left for manual review.
+ */
+export const importMemories = async (text: string): Promise<ImportReport> => {
+  const report: ImportReport = { inserted: 0, skipped: 0, conflicting: 0, invalid: 0, failed: 0 };
+
+  let incoming: ExportedMemory[];
+  try {
+    incoming = text.trimStart().startsWith('{') ? parseJson(text) : parseMarkdown(text);
+  } catch (error: any) {
+    emitLog(`Import rejected: ${error.message}`, 'error');
+    throw error;
+  }
+
+  // A failed read must abort: treating it as an empty archive would duplicate everything
+  const existing = await listOrThrow('Import');
+  const knownFull = new Set(existing.map(fullKey));
+  const knownContent = new Map(existing.map(m => [contentKey(m), m]));
+
+  for (const raw of incoming) {
+    if (!isValid(raw)) {
+      report.invalid++;
+      continue;
+    }
+    const record: ExportedMemory = {
+      content: raw.content.trim(),
+      category: raw.category || 'Unknown',
+      tags: (raw.tags || []).filter(t => typeof t === 'string'),
+      created_ms: typeof raw.created_ms === 'number' ? raw.created_ms : Date.now(),
+      meta: raw.meta && typeof raw.meta === 'object' ? raw.meta : undefined,
+    };
+
+    if (knownFull.has(fullKey(record))) {
+      report.skipped++;
+      continue;
+    }
+    const sameContent = knownContent.get(contentKey(record));
+    if (sameContent) {
+      report.conflicting++;
+      emitLog(`Import conflict: "${record.content.substring(0, 30)}..." differs from archive ${sameContent.id}.`, 'info');
+      continue;
+    }
+
+    try {
+      await saveMemory(record.content, record.category, record.tags, record.created_ms, record.meta);
+    } catch (error: any) {
+      report.failed++;
+      emitLog(`Import failed for "${record.content.substring(0, 30)}...": ${error.message}`, 'error');
+      continue;
+    }
+    knownFull.add(fullKey(record));
+    knownContent.set(contentKey(record), record);
+    report.inserted++;
+  }
+
+  emitLog(
+    `Import complete: ${report.inserted} inserted, ${report.skipped} skipped, ${report.conflicting} conflicting${report.invalid ? `, ${report.invalid} invalid` : ''}${report.failed ? `, ${report.failed} failed` : ''}.`,
+    report.failed ? 'error' : report.conflicting || report.invalid ? 'info' : 'success'
+  );
+  return report;
+};
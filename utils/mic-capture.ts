@@ -0,0 +1,138 @@
+import { Blob } from '@google/genai';
+import { encodeBase64 } from './audio-utils';
+
+// --- Microphone Capture ---
+// Metering, resampling to 16 kHz and Int16 framing run in an AudioWorklet on the audio thread.
+// The main thread only receives ready PCM frames (transferred, not copied) and a throttled level.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 40 ms per frame: small enough for low latency, large enough to keep the message rate sane
+const FRAME_SAMPLES = 640;
+// Level updates for the visualizer (~20 per second), each one re-renders React
+const VOLUME_INTERVAL_MS = 50;
+
+export interface MicCaptureHandlers {
+  // sampleRate is CAPTURE_SAMPLE_RATE, or the context's own rate when that is lower
+  onFrame: (pcm: Int16Array, sampleRate: number) => void;
+  // RMS of the raw input since the previous update, 0..1
+  onVolume: (rms: number) => void;
+}
+
+export interface MicCapture {
+  node: AudioWorkletNode;
+  stop: () => void;
+}
+
+// Kept as source text so it needs no separate bundle entry: worklet modules are loaded by URL.
+// Resampling averages the input samples falling into each output sample (boxcar filter, enough for voice)
+// and streams across render quanta; a context already at or below 16 kHz is passed through at its own
+// rate, which the frames are then labelled with (the Live API resamples any declared rate).
+const WORKLET_SOURCE = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, frameSamples, volumeIntervalMs } = options.processorOptions;
+    this.ratio = Math.max(1, sampleRate / targetRate);
+    this.frameSamples = frameSamples;
+    this.frame = new Int16Array(frameSamples);
+    this.filled = 0;
+    this.position = 0;
+    this.accum = 0;
+    this.count = 0;
+    this.volumeSamples = Math.round(sampleRate * volumeIntervalMs / 1000);
+    this.sumSquares = 0;
+    this.metered = 0;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.frame[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.filled === this.frameSamples) {
+      this.port.postMessage({ type: 'frame', pcm: this.frame.buffer }, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frameSamples);
+      this.filled = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      const sample = channel[i];
+      this.sumSquares += sample * sample;
+      this.accum += sample;
+      this.count++;
+      this.position++;
+      if (this.position >= this.ratio) {
+        this.position -= this.ratio;
+        this.push(this.accum / this.count);
+        this.accum = 0;
+        this.count = 0;
+      }
+    }
+    this.metered += channel.length;
+    if (this.metered >= this.volumeSamples) {
+      this.port.postMessage({ type: 'volume', rms: Math.sqrt(this.sumSquares / this.metered) });
+      this.sumSquares = 0;
+      this.metered = 0;
+    }
+    return true;
+  }
+}
+registerProcessor('mic-capture', MicCaptureProcessor);
+`;
+
+// addModule has to run once per AudioContext
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadWorklet = (ctx: BaseAudioContext): Promise<void> => {
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    if (!ctx.audioWorklet) throw new Error('AudioWorklet is not available (a secure context is required)');
+    const url = URL.createObjectURL(new window.Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    loading = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loading.catch(() => loadedContexts.delete(ctx));
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+};
+
+/**
+ * Starts capturing the source: Int16 frames of FRAME_SAMPLES at up to 16 kHz go to onFrame, the level to onVolume.
+ */
+export const startMicCapture = async (ctx: AudioContext, source: AudioNode, handlers: MicCaptureHandlers): Promise<MicCapture> => {
+  await loadWorklet(ctx);
+  const frameRate = Math.min(ctx.sampleRate, CAPTURE_SAMPLE_RATE);
+  const node = new AudioWorkletNode(ctx, 'mic-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, frameSamples: FRAME_SAMPLES, volumeIntervalMs: VOLUME_INTERVAL_MS },
+  });
+  node.port.onmessage = (event: MessageEvent) => {
+    const message = event.data;
+    if (message.type === 'frame') handlers.onFrame(new Int16Array(message.pcm), frameRate);
+    else if (message.type === 'volume') handlers.onVolume(message.rms);
+  };
+  source.connect(node);
+  // The output stays silent; being connected keeps the node pulled by the graph in every browser
+  node.connect(ctx.destination);
+
+  return {
+    node,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect(node);
+      node.disconnect();
+    },
+  };
+};
+
+/**
+ * Wraps a captured frame for the Gemini Live API.
+ */
+export const pcmFrameToBlob = (pcm: Int16Array, sampleRate: number = CAPTURE_SAMPLE_RATE): Blob => ({
+  data: encodeBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+  mimeType: `audio/pcm;rate=${sampleRate}`,
+});
@@ -0,0 +1,98 @@
+// Operator profiles: each identity HK-47 talks to gets its own memory partition.
+// An optional shared partition is read alongside it (by default the pre-profile 'hk47' partition,
+// so memories recorded before profiles existed stay visible to everyone).
+
+export interface OperatorProfile {
+  name: string;
+  partition: string;
+}
+
+const PROFILES_STORAGE_KEY = 'hk47.operatorProfiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'hk47.activeOperator';
+const DEFAULT_OPERATOR = 'Master';
+const PARTITION_PREFIX = 'hk47-op-';
+
+/** Empty string disables the shared partition. */
+export const SHARED_PARTITION = process.env.HK_SHARED_PARTITION ?? 'hk47';
+
+const slugify = (name: string) =>
+  name.trim().toLowerCase().replace(/ё/g, 'е').replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'anonymous';
+
+const toProfile = (name: string): OperatorProfile => ({ name: name.trim(), partition: PARTITION_PREFIX + slugify(name) });
+
+const readStorage = (key: string): string | null => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: string) => {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(key, value);
+};
+
+// Auto-detection: ?operator=<name> in the URL, then HK_OPERATOR, then the last profile used
+const detectOperator = (): string => {
+  const fromUrl = typeof location !== 'undefined' ? new URLSearchParams(location.search).get('operator') : null;
+  return fromUrl?.trim() || process.env.HK_OPERATOR || readStorage(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_OPERATOR;
+};
+
+const loadProfiles = (): OperatorProfile[] => {
+  try {
+    const names: unknown = JSON.parse(readStorage(PROFILES_STORAGE_KEY) || '[]');
+    return Array.isArray(names) ? names.filter((n): n is string => typeof n === 'string' && !!n.trim()).map(toProfile) : [];
+  } catch {
+    return [];
+  }
+};
+
+let profiles: OperatorProfile[] = loadProfiles();
+let active: OperatorProfile = toProfile(detectOperator());
+
+// --- Subscription ---
+type ProfileCallback = (profile: OperatorProfile) => void;
+const listeners: ProfileCallback[] = [];
+
+export const subscribeToOperatorProfile = (callback: ProfileCallback) => {
+  listeners.push(callback);
+  callback(active);
+  return () => {
+    const index = listeners.indexOf(callback);
+    if (index > -1) listeners.splice(index, 1);
+  };
+};
+
+const remember = (profile: OperatorProfile) => {
+  if (!profiles.some(p => p.partition === profile.partition)) {
+    profiles = [...profiles, profile].sort((a, b) => a.name.localeCompare(b.name));
+    writeStorage(PROFILES_STORAGE_KEY, JSON.stringify(profiles.map(p => p.name)));
+  }
+};
+remember(active);
+
+export const getOperatorProfile = () => active;
+
+export const listOperatorProfiles = () => profiles;
+
+/**
+ * Switches to the named operator, creating the profile on first use. Names that differ only in
+ * case or punctuation map to the same partition.
+ */
+export const setOperatorProfile = (name: string): OperatorProfile => {
+  const profile = toProfile(name);
+  if (!profile.name) throw new Error('Operator name is empty');
+  remember(profile);
+  writeStorage(ACTIVE_PROFILE_STORAGE_KEY, profile.name);
+  if (profile.partition !== active.partition || profile.name !== active.name) {
+    active = profile;
+    listeners.forEach(cb => cb(active));
+  }
+  return active;
+};
+
+/**
+ * Partitions searched for the active profile: its own first, then the shared one (if enabled).
+ */
+export const readablePartitions = (): string[] =>
+  SHARED_PARTITION && SHARED_PARTITION !== active.partition ? [active.partition, SHARED_PARTITION] : [active.partition];
@@ -0,0 +1,68 @@
+import type { Memory } from './memory-store';
+
+// Co-occurrence graph of tags and categories: two tags are linked when a record carries both, and a
+// tag is linked to the categories of the records it appears on. Edge weight counts those records.
+
+export type TagGraphNodeKind = 'tag' | 'category';
+
+export interface TagGraphNode {
+  id: string;
+  kind: TagGraphNodeKind;
+  label: string;
+  // Records carrying this tag or category
+  count: number;
+}
+
+export interface TagGraphEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export interface TagGraph {
+  nodes: TagGraphNode[];
+  edges: TagGraphEdge[];
+}
+
+// Past this the layout turns into a hairball; the most used nodes are kept
+const MAX_NODES = 80;
+
+export const tagNodeId = (kind: TagGraphNodeKind, label: string) => `${kind}:${label}`;
+
+export const buildTagGraph = (memories: Memory[], maxNodes: number = MAX_NODES): TagGraph => {
+  const nodes = new Map<string, TagGraphNode>();
+  const edges = new Map<string, TagGraphEdge>();
+
+  const touchNode = (kind: TagGraphNodeKind, label: string) => {
+    const id = tagNodeId(kind, label);
+    const node = nodes.get(id) || { id, kind, label, count: 0 };
+    node.count++;
+    nodes.set(id, node);
+    return id;
+  };
+  const touchEdge = (a: string, b: string) => {
+    const [source, target] = a < b ? [a, b] : [b, a];
+    const key = `${source}|${target}`;
+    const edge = edges.get(key) || { source, target, weight: 0 };
+    edge.weight++;
+    edges.set(key, edge);
+  };
+
+  memories.forEach(m => {
+    const tagIds = [...new Set(m.tags.map(t => t.trim().toLowerCase()).filter(Boolean))].map(t => touchNode('tag', t));
+    const categoryId = m.category ? touchNode('category', m.category) : null;
+    tagIds.forEach((a, i) => {
+      tagIds.slice(i + 1).forEach(b => touchEdge(a, b));
+      if (categoryId) touchEdge(a, categoryId);
+    });
+  });
+
+  const kept = [...nodes.values()]
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, maxNodes);
+  const keptIds = new Set(kept.map(n => n.id));
+  return {
+    nodes: kept,
+    edges: [...edges.values()].filter(e => keptIds.has(e.source) && keptIds.has(e.target)),
+  };
+};
@@ -0,0 +1,253 @@
+import { emitLog } from './memory-events';
+import { getAllMemories, getMemoryStore, Memory, MemoryStore } from './memory-db';
+import { analyzeJson } from './analysis-model';
+import { tokenize } from './memory-ranking';
+import { extractTags } from './tagging-agent';
+
+// Tag vocabulary: one canonical tag per concept, so "Кофе", "кофе" and "coffee" all become "кофе".
+// Case and word forms are matched by stem; other languages and synonyms are mapped by the analysis
+// model onto tags already in the vocabulary. The vocabulary lives next to the operator's memories:
+// a single JSON record in the "<partition>:tags" partition of the same store (and encrypted like them).
+
+export interface VocabularyEntry {
+  canonical: string;
+  aliases: string[];
+}
+
+const VOCABULARY_SUFFIX = ':tags';
+const VOCABULARY_CATEGORY = 'tag-vocabulary';
+// Changes are written in one batch rather than one store round-trip per new tag
+const PERSIST_DELAY_MS = 2000;
+// Canonical tags offered to the model per request; the most used ones come first
+const MAX_MAPPING_CANDIDATES = 200;
+
+const MAPPING_PROMPT = `
+Ты нормализуешь теги архива памяти. Для каждого нового тега (new_tags) найди в словаре (vocabulary) канонический тег
+с ТЕМ ЖЕ смыслом: перевод с другого языка ("coffee" -> "кофе"), синоним ("пёс" -> "собака"), другая форма или написание.
+Просто близкие по теме теги НЕ объединяй ("чай" и "кофе" — разные теги). Если подходящего нет, canonical = null.
+Ответ ТОЛЬКО в формате JSON: { "mappings": [{ "tag": "string", "canonical": "string" | null }] }
+`;
+
+const MAPPING_SCHEMA = {
+  type: 'object',
+  properties: {
+    mappings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { tag: { type: 'string' }, canonical: { type: ['string', 'null'], default: null } },
+        required: ['tag']
+      },
+      default: []
+    }
+  },
+  required: ['mappings']
+};
+
+/** Lowercase, without "#" and extra whitespace. */
+export const cleanTag = (tag: string) => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase();
+
+// Word forms and case collapse onto one key ("Кофе", "кофе", "кофею")
+const tagKey = (tag: string) => tokenize(tag).join(' ') || cleanTag(tag).replace(/ё/g, 'е');
+
+export class TagVocabulary {
+  private byKey = new Map<string, VocabularyEntry>();
+  private recordId: string | number | null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor(private store: MemoryStore, private entries: VocabularyEntry[], recordId: string | number | null) {
+    this.recordId = recordId;
+    entries.forEach(e => this.index(e));
+  }
+
+  static async load(store: MemoryStore): Promise<TagVocabulary> {
+    const record = (await store.list()).find(r => r.category === VOCABULARY_CATEGORY);
+    let entries: VocabularyEntry[] = [];
+    if (record) {
+      try {
+        const parsed = JSON.parse(record.content);
+        if (Array.isArray(parsed?.entries)) entries = parsed.entries;
+      } catch {
+        emitLog('Tag vocabulary record is corrupt; starting a new one.', 'error');
+      }
+    }
+    const vocabulary = new TagVocabulary(store, entries, record?.id ?? null);
+    if (!record) vocabulary.seed(await getAllMemories());
+    return vocabulary;
+  }
+
+  lookup(tag: string): VocabularyEntry | undefined {
+    return this.byKey.get(tagKey(tag));
+  }
+
+  list(): VocabularyEntry[] {
+    return this.entries.map(e => ({ ...e, aliases: [...e.aliases] }));
+  }
+
+  addCanonical(tag: string): VocabularyEntry {
+    const entry: VocabularyEntry = { canonical: tag, aliases: [] };
+    this.entries.push(entry);
+    this.index(entry);
+    this.schedulePersist();
+    return entry;
+  }
+
+  addAlias(entry: VocabularyEntry, alias: string) {
+    if (entry.aliases.includes(alias) || alias === entry.canonical) return;
+    entry.aliases.push(alias);
+    this.index(entry);
+    this.schedulePersist();
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist().catch((error: any) => emitLog(`Tag vocabulary not saved: ${error.message}`, 'error'));
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async persist() {
+    const content = JSON.stringify({ version: 1, entries: this.entries });
+    if (this.recordId === null) this.recordId = await this.store.insert(content, VOCABULARY_CATEGORY, []);
+    else await this.store.update(this.recordId, { content });
+  }
+
+  private index(entry: VocabularyEntry) {
+    [entry.canonical, ...entry.aliases].forEach(t => {
+      if (!this.byKey.has(tagKey(t))) this.byKey.set(tagKey(t), entry);
+    });
+  }
+
+  /**
+   * First use on a partition: the tags already on memories become the vocabulary, the most
+   * frequent spelling of each stem being canonical.
+   */
+  private seed(memories: Memory[]) {
+    const counts = new Map<string, Map<string, number>>();
+    memories.flatMap(m => m.tags).map(cleanTag).filter(Boolean).forEach(tag => {
+      const spellings = counts.get(tagKey(tag)) || new Map<string, number>();
+      spellings.set(tag, (spellings.get(tag) || 0) + 1);
+      counts.set(tagKey(tag), spellings);
+    });
+    counts.forEach(spellings => {
+      const [[canonical], ...variants] = [...spellings.entries()].sort((a, b) => b[1] - a[1]);
+      const entry = this.addCanonical(canonical);
+      variants.forEach(([variant]) => this.addAlias(entry, variant));
+    });
+    if (counts.size) emitLog(`Tag vocabulary seeded with ${counts.size} canonical tags.`, 'info');
+  }
+}
+
+// One vocabulary per backend and partition; a failed load is retried on the next call
+const vocabularies = new Map<string, Promise<TagVocabulary>>();
+// The same vocabularies once loaded, for reads that cannot wait for a load
+const loadedVocabularies = new Map<string, TagVocabulary>();
+
+const vocabularyKey = () => {
+  const base = getMemoryStore();
+  return `${base.kind}:${base.partition}`;
+};
+
+export const getTagVocabulary = (): Promise<TagVocabulary> => {
+  const base = getMemoryStore();
+  const key = vocabularyKey();
+  let vocabulary = vocabularies.get(key);
+  if (!vocabulary) {
+    vocabulary = TagVocabulary.load(base.forPartition(base.partition + VOCABULARY_SUFFIX));
+    vocabulary.then(loaded => loadedVocabularies.set(key, loaded), () => vocabularies.delete(key));
+    vocabularies.set(key, vocabulary);
+  }
+  return vocabulary;
+};
+
+/**
+ * Asks the analysis model which unknown tags mean the same as an existing canonical tag.
+ * Without a model nothing is mapped and every unknown tag becomes canonical.
+ */
+const mapOntoVocabulary = async (tags: string[], vocabulary: TagVocabulary): Promise<Map<string, string>> => {
+  const candidates = vocabulary.list()
+    .sort((a, b) => b.aliases.length - a.aliases.length)
+    .slice(0, MAX_MAPPING_CANDIDATES)
+    .map(e => e.canonical);
+  if (candidates.length === 0) return new Map();
+
+  const { mappings } = await analyzeJson<{ mappings: { tag: string, canonical: string | null }[] }>({
+    task: 'tag_normalization',
+    prompt: MAPPING_PROMPT,
+    input: JSON.stringify({ new_tags: tags, vocabulary: candidates }),
+    schema: MAPPING_SCHEMA,
+    fallback: () => ({ mappings: [] }),
+  });
+  const known = new Set(candidates);
+  return new Map(mappings
+    .filter(m => m.canonical && known.has(m.canonical) && tags.includes(cleanTag(m.tag)))
+    .map(m => [cleanTag(m.tag), m.canonical!]));
+};
+
+// Normalizations run one at a time so concurrent saves do not create the same canonical twice
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Maps tags onto canonical vocabulary tags. Unknown tags are added to the vocabulary, as new canonical
+ * tags or as aliases of the one the model matched. If the vocabulary is unavailable the cleaned tags are returned.
+ */
+export const normalizeTags = (tags: string[]): Promise<string[]> => {
+  const run = async (): Promise<string[]> => {
+    const cleaned = [...new Set(tags.map(cleanTag).filter(Boolean))];
+    if (cleaned.length === 0) return [];
+    let vocabulary: TagVocabulary;
+    try {
+      vocabulary = await getTagVocabulary();
+    } catch (error: any) {
+      emitLog(`Tag vocabulary unavailable: ${error.message}`, 'error');
+      return cleaned;
+    }
+
+    const unknown = cleaned.filter(t => !vocabulary.lookup(t));
+    const mapped = unknown.length ? await mapOntoVocabulary(unknown, vocabulary) : new Map<string, string>();
+
+    const result: string[] = [];
+    for (const tag of cleaned) {
+      let entry = vocabulary.lookup(tag);
+      if (!entry && mapped.has(tag)) {
+        entry = vocabulary.lookup(mapped.get(tag)!);
+        if (entry) vocabulary.addAlias(entry, tag);
+      }
+      if (!entry) entry = vocabulary.addCanonical(tag);
+      const canonical = entry?.canonical ?? tag;
+      if (!result.includes(canonical)) result.push(canonical);
+    }
+    return result;
+  };
+  const next = queue.then(run, run);
+  queue = next.catch(() => {});
+  return next;
+};
+
+/**
+ * Tags for a new record: the given ones, or extracted from the content when there are none; normalized either way.
+ */
+export const enrichTags = async (content: string, tags: string[] = []): Promise<string[]> => {
+  const source = tags.some(t => t.trim()) ? tags : await extractTags(content);
+  return normalizeTags(source);
+};
+
+/**
+ * Search tags widened to every known spelling: the tags themselves, their canonical tag and its aliases,
+ * so records tagged before normalization are still found.
+ * Searches sit inside the reply latency budget, so this only reads the vocabulary already in memory (no
+ * model call, no wait behind saves); if it is not loaded yet, the load starts for later searches.
+ */
+export const expandTags = (tags: string[]): string[] => {
+  const cleaned = [...new Set(tags.map(cleanTag).filter(Boolean))];
+  if (cleaned.length === 0) return [];
+  const vocabulary = loadedVocabularies.get(vocabularyKey());
+  if (!vocabulary) getTagVocabulary().catch(() => {});
+  const expanded = new Set(cleaned);
+  cleaned.forEach(tag => {
+    const entry = vocabulary?.lookup(tag);
+    if (entry) [entry.canonical, ...entry.aliases].forEach(t => expanded.add(t));
+  });
+  return [...expanded];
+};
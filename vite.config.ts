@@ -12,7 +12,18 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.HK_DB_URL': JSON.stringify(env.HK_DB_URL || ''),
+        'process.env.HK_DB_USER': JSON.stringify(env.HK_DB_USER || ''),
+        'process.env.HK_MEMORY_BACKEND': JSON.stringify(env.HK_MEMORY_BACKEND || ''),
+        'process.env.HK_MEMORY_HASH_TAGS': JSON.stringify(env.HK_MEMORY_HASH_TAGS || ''),
+        'process.env.HK_OPERATOR': JSON.stringify(env.HK_OPERATOR || ''),
+        'process.env.HK_SHARED_PARTITION': JSON.stringify(env.HK_SHARED_PARTITION ?? 'hk47'),
+        'process.env.HK_ANALYSIS_PROVIDER': JSON.stringify(env.HK_ANALYSIS_PROVIDER || ''),
+        'process.env.HK_ANALYSIS_MODEL': JSON.stringify(env.HK_ANALYSIS_MODEL || ''),
+        'process.env.HK_ANALYSIS_TEMPERATURE': JSON.stringify(env.HK_ANALYSIS_TEMPERATURE || ''),
+        'process.env.HK_ANALYSIS_TIMEOUT_MS': JSON.stringify(env.HK_ANALYSIS_TIMEOUT_MS || ''),
+        'process.env.HK_ANALYSIS_URL': JSON.stringify(env.HK_ANALYSIS_URL || '')
       },
       resolve: {
         alias: {